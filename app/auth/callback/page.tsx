@@ -3,6 +3,8 @@
 import { Suspense, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
+import { setCsrfToken } from "@/lib/transport";
+import { broadcast } from "@/lib/tab-sync";
 
 function AuthCallbackContent() {
   const router = useRouter();
@@ -22,16 +24,16 @@ function AuthCallbackContent() {
       // Extract CSRF token from URL and set as cookie
       // This is needed for cross-origin setups where frontend and backend
       // are on different origins and cookies cannot be shared
-      // Note: Don't encode the token - it's already URL-safe base64 and the
-      // backend expects the raw value
       const csrfToken = searchParams.get("csrf_token");
       if (csrfToken) {
-        document.cookie = `csrf_token=${csrfToken}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
+        setCsrfToken(csrfToken);
       }
 
       // Refresh user data after OAuth callback
       // The backend has already set the cookies
       await refreshUser();
+      // Sign in any other open tabs (e.g. one left on the login page)
+      broadcast({ type: "logged_in" });
 
       // Redirect to chat
       router.push("/chat");
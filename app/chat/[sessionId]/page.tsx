@@ -1,7 +1,7 @@
 "use client";
 
-import { useEffect, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useEffect, useCallback, useMemo, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import * as Sentry from "@sentry/nextjs";
@@ -9,11 +9,27 @@ import { ChatLayout } from "@/components/layout/chat-layout";
 import { MessageList } from "@/components/chat/message-list";
 import { ChatInput } from "@/components/chat/chat-input";
 import { GlobalProgressIndicator } from "@/components/chat/global-progress-indicator";
+import { StreamErrorNotice } from "@/components/chat/stream-error-notice";
+import { DataPane } from "@/components/chat/data-pane";
 import { MessageListErrorBoundary, ChatAreaErrorBoundary } from "@/components/error-boundary";
-import { useSessions, useSession, useCreateSession, useDeleteSession, useUpdateSession } from "@/lib/hooks/use-sessions";
+import {
+  useSessions,
+  useSession,
+  useCreateSession,
+  useUpdateSession,
+  useSoftDeleteSessions,
+} from "@/lib/hooks/use-sessions";
 import { useSessionStore } from "@/store/session-store";
-import { useChatStore } from "@/store/chat-store";
-import { streamMessage } from "@/lib/streaming";
+import {
+  useChatStore,
+  useSessionStream,
+  getStreamToolCalls,
+  getStreamContentBlocks,
+} from "@/store/chat-store";
+import { useChatStream, useRetryStream } from "@/lib/hooks/use-chat-stream";
+import { sumUsage } from "@/lib/usage";
+import { collectToolOutputs } from "@/lib/explorer";
+import { clearBranchPreference, getConversationPath, preferBranch } from "@/lib/branches";
 import type { Message } from "@/lib/types";
 
 export default function ChatSessionPage() {
@@ -21,6 +37,9 @@ export default function ChatSessionPage() {
   const router = useRouter();
   const queryClient = useQueryClient();
   const sessionId = params.sessionId as string;
+  // Message to jump to when the session was opened from search
+  const searchParams = useSearchParams();
+  const highlightMessageId = searchParams.get("message");
 
   // Session state
   const { setActiveSession } = useSessionStore();
@@ -30,33 +49,45 @@ export default function ChatSessionPage() {
     setActiveSession(sessionId);
   }, [sessionId, setActiveSession]);
 
-  // Chat streaming state
-  const {
-    isStreaming,
-    streamingContent,
-    startStreaming,
-    appendContent,
-    addContentBlock,
-    addToolCallStart,
-    updateToolCallEnd,
-    addCitation,
-    stopStreaming,
-    resetStreaming,
-    getToolCalls,
-    getContentBlocks,
-    streamingCitations,
-    setProgress,
-  } = useChatStore();
+  // Chat streaming state for this session (other sessions may stream in the background)
+  const stream = useSessionStream(sessionId);
+  const { isStreaming, streamingContent, streamingCitations, reasoning, reasoningDurationMs } =
+    stream;
+  const streamingToolCalls = useMemo(() => getStreamToolCalls(stream), [stream]);
+  const streamingContentBlocks = useMemo(() => getStreamContentBlocks(stream), [stream]);
+  const stopStreaming = useChatStore((state) => state.stopStreaming);
+  const streamToSession = useChatStream();
+  const retryStream = useRetryStream();
 
   // API queries
-  const { data: sessionsData, isLoading: isLoadingSessions } = useSessions();
+  const {
+    data: sessionsData,
+    isLoading: isLoadingSessions,
+    hasNextPage: hasMoreSessions,
+    isFetchingNextPage: isLoadingMoreSessions,
+    isFetchNextPageError: loadMoreSessionsFailed,
+    fetchNextPage,
+  } = useSessions();
   const { data: sessionData, isLoading: isLoadingSession, error: sessionError } = useSession(sessionId);
   const createSession = useCreateSession();
-  const deleteSession = useDeleteSession();
   const updateSession = useUpdateSession();
 
   const sessions = sessionsData?.sessions || [];
-  const messages = sessionData?.messages || [];
+  const allMessages = useMemo(() => sessionData?.messages || [], [sessionData]);
+  // Branches picked with a message's switcher, most recent last
+  const [preferredBranchIds, setPreferredBranchIds] = useState<string[]>([]);
+  const { messages, branches } = useMemo(
+    () => getConversationPath(allMessages, preferredBranchIds),
+    [allMessages, preferredBranchIds]
+  );
+  // Every branch's responses count towards the session's usage
+  const sessionUsage = useMemo(() => sumUsage(allMessages), [allMessages]);
+  // Explorations show their tool outputs in a data pane beside the chat
+  const isExplorer = sessionData?.mode === "explorer";
+  const explorerOutputs = useMemo(
+    () => (isExplorer ? collectToolOutputs(messages, streamingToolCalls) : []),
+    [isExplorer, messages, streamingToolCalls]
+  );
 
   // Redirect to /chat if session not found
   useEffect(() => {
@@ -76,6 +107,17 @@ export default function ChatSessionPage() {
     }
   }, [createSession, setActiveSession, router]);
 
+  // Handle new exploration, which collects tool outputs in a data pane
+  const handleNewExploration = useCallback(async () => {
+    try {
+      const newSession = await createSession.mutateAsync({ mode: "explorer" });
+      setActiveSession(newSession.id);
+      router.push(`/chat/${newSession.id}`);
+    } catch {
+      toast.error("Failed to create exploration");
+    }
+  }, [createSession, setActiveSession, router]);
+
   // Handle session selection
   const handleSelectSession = useCallback(
     (selectedSessionId: string) => {
@@ -85,21 +127,27 @@ export default function ChatSessionPage() {
     [setActiveSession, router]
   );
 
-  // Handle session deletion
-  const handleDeleteSession = useCallback(
-    async (deleteSessionId: string) => {
-      try {
-        await deleteSession.mutateAsync(deleteSessionId);
-        if (sessionId === deleteSessionId) {
-          setActiveSession(null);
-          router.push("/chat");
-        }
-      } catch (error) {
-        toast.error("Failed to delete session");
+  // Handle opening a message found by search
+  const handleSelectMessage = useCallback(
+    (selectedSessionId: string, messageId: string) => {
+      setActiveSession(selectedSessionId);
+      router.push(`/chat/${selectedSessionId}?message=${encodeURIComponent(messageId)}`);
+    },
+    [setActiveSession, router]
+  );
+
+  // Handle session deletion, leaving the open session if it was deleted
+  const handleSessionsDeleted = useCallback(
+    (sessionIds: string[]) => {
+      if (sessionId && sessionIds.includes(sessionId)) {
+        setActiveSession(null);
+        router.push("/chat");
       }
     },
-    [deleteSession, sessionId, setActiveSession, router]
+    [sessionId, setActiveSession, router]
   );
+  const { deleteSession: handleDeleteSession, deleteSessions: handleDeleteSessions } =
+    useSoftDeleteSessions(handleSessionsDeleted);
 
   // Handle session rename
   const handleRenameSession = useCallback(
@@ -109,100 +157,92 @@ export default function ChatSessionPage() {
     [updateSession]
   );
 
-  // Handle retrying an assistant message (regenerate response)
-  const handleRetryMessage = useCallback(
-    async (messageId: string) => {
-      // Find the assistant message and the user message that preceded it
+  // Handle editing a user message, which branches the conversation at that message
+  const handleEditMessage = useCallback(
+    async (messageId: string, content: string) => {
       const messageIndex = messages.findIndex((m) => m.id === messageId);
       if (messageIndex === -1) return;
+      const parentId = messageIndex > 0 ? messages[messageIndex - 1].id : null;
 
-      // Find the preceding user message
-      let userMessage: Message | null = null;
-      for (let i = messageIndex - 1; i >= 0; i--) {
-        if (messages[i].role === "user") {
-          userMessage = messages[i];
-          break;
-        }
-      }
+      // The new branch is the newest alternative, so drop any earlier pick to show it
+      setPreferredBranchIds((ids) => clearBranchPreference(ids, branches[messageId] ?? []));
 
-      if (!userMessage) return;
+      // Add optimistic user message alongside the edited one
+      const userMessage: Message = {
+        id: `temp-${Date.now()}`,
+        role: "user",
+        content,
+        created_at: new Date().toISOString(),
+        parent_id: parentId,
+      };
 
-      // Remove the assistant message(s) after the user message from the cache
       queryClient.setQueryData(
         ["session", sessionId],
         (old: typeof sessionData) =>
           old
             ? {
                 ...old,
-                messages: old.messages.slice(0, messageIndex),
+                messages: [...old.messages, userMessage],
               }
             : old
       );
 
-      // Start streaming the new response
-      const controller = startStreaming();
+      await streamToSession(
+        sessionId,
+        { content, parent_id: parentId },
+        { restoreOnError: true, userMessageId: userMessage.id }
+      );
+    },
+    [messages, branches, sessionId, streamToSession, queryClient]
+  );
+
+  // Handle retrying an assistant message (regenerate response). The backend adds a
+  // user turn for every request, so the preceding user message is resent as a
+  // sibling under the same parent, like an edit. The new response shows, and the
+  // original stays reachable from the branch switcher
+  const handleRetryMessage = useCallback(
+    async (messageId: string) => {
+      const messageIndex = messages.findIndex((m) => m.id === messageId);
+      if (messageIndex === -1) return;
 
-      try {
-        await streamMessage(
-          sessionId,
-          { content: userMessage.content },
-          {
-            onContent: appendContent,
-            onContentBlock: addContentBlock,
-            onToolCallStart: addToolCallStart,
-            onToolCallEnd: updateToolCallEnd,
-            onCitation: (source, sourceRef, reference) =>
-              addCitation({ source, source_ref: sourceRef, reference }),
-            onProgress: setProgress,
-            onDone: () => {
-              resetStreaming();
-              queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
-            },
-            onError: (code, message) => {
-              toast.error(message || "Failed to get response");
-              resetStreaming();
-              // Restore original messages on error
-              queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
-            },
-          },
-          controller.signal
-        );
-      } catch (error) {
-        if ((error as Error).name !== "AbortError") {
-          toast.error((error as Error).message || "Failed to get response");
+      // Find the preceding user message
+      let userMessage: Message | null = null;
+      for (let i = messageIndex - 1; i >= 0; i--) {
+        if (messages[i].role === "user") {
+          userMessage = messages[i];
+          break;
         }
-        resetStreaming();
-        queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
       }
+
+      if (!userMessage) return;
+
+      await handleEditMessage(userMessage.id, userMessage.content);
     },
-    [
-      messages,
-      sessionId,
-      startStreaming,
-      appendContent,
-      addContentBlock,
-      addToolCallStart,
-      updateToolCallEnd,
-      addCitation,
-      setProgress,
-      resetStreaming,
-      queryClient,
-      sessionData,
-    ]
+    [messages, handleEditMessage]
   );
 
+  // Handle showing another branch from a message's switcher
+  const handleSwitchBranch = useCallback((messageId: string) => {
+    setPreferredBranchIds((ids) => preferBranch(ids, messageId));
+  }, []);
+
   // Handle sending a message
   const handleSendMessage = useCallback(
     async (content: string) => {
       // Track message send metric
       Sentry.metrics.count("chat.message.send.count", 1);
 
+      // Continue the branch on screen from its last message
+      const lastMessageId = messages[messages.length - 1]?.id;
+      const parentId = lastMessageId?.startsWith("temp-") ? undefined : lastMessageId;
+
       // Add optimistic user message
       const userMessage: Message = {
         id: `temp-${Date.now()}`,
         role: "user",
         content,
         created_at: new Date().toISOString(),
+        parent_id: parentId,
       };
 
       queryClient.setQueryData(
@@ -216,55 +256,54 @@ export default function ChatSessionPage() {
             : old
       );
 
-      const controller = startStreaming();
-
-      try {
-        await streamMessage(
-          sessionId,
-          { content },
-          {
-            onContent: appendContent,
-            onContentBlock: addContentBlock,
-            onToolCallStart: addToolCallStart,
-            onToolCallEnd: updateToolCallEnd,
-            onCitation: (source, sourceRef, reference) =>
-              addCitation({ source, source_ref: sourceRef, reference }),
-            onProgress: setProgress,
-            onDone: () => {
-              resetStreaming();
-              queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
-              // Delay sessions invalidation to allow backend title generation to complete
-              setTimeout(() => {
-                queryClient.invalidateQueries({ queryKey: ["sessions"] });
-              }, 1500);
-            },
-            onError: (code, message) => {
-              toast.error(message || "Failed to get response");
-              resetStreaming();
-            },
-          },
-          controller.signal
-        );
-      } catch (error) {
-        if ((error as Error).name !== "AbortError") {
-          toast.error((error as Error).message || "Failed to get response");
-        }
-        resetStreaming();
-      }
+      await streamToSession(
+        sessionId,
+        { content, parent_id: parentId },
+        { userMessageId: userMessage.id }
+      );
     },
-    [
-      sessionId,
-      startStreaming,
-      appendContent,
-      addContentBlock,
-      addToolCallStart,
-      updateToolCallEnd,
-      addCitation,
-      setProgress,
-      resetStreaming,
-      queryClient,
-      sessionData,
-    ]
+    [messages, sessionId, streamToSession, queryClient]
+  );
+
+  const chatArea = (
+    <>
+      <MessageListErrorBoundary
+        onReset={() => queryClient.invalidateQueries({ queryKey: ["session", sessionId] })}
+      >
+        <MessageList
+          messages={messages}
+          sessionId={sessionId}
+          highlightMessageId={highlightMessageId}
+          isStreaming={isStreaming}
+          streamingContent={streamingContent}
+          streamingContentBlocks={streamingContentBlocks}
+          streamingToolCalls={streamingToolCalls}
+          streamingCitations={streamingCitations}
+          streamingReasoning={reasoning}
+          streamingReasoningDurationMs={reasoningDurationMs}
+          onSelectPrompt={handleSendMessage}
+          onRetryMessage={handleRetryMessage}
+          branches={branches}
+          onEditMessage={handleEditMessage}
+          onSwitchBranch={handleSwitchBranch}
+        />
+      </MessageListErrorBoundary>
+      <StreamErrorNotice
+        sessionId={sessionId}
+        onRetry={(failedSessionId, request) => streamToSession(failedSessionId, request)}
+        onNewChat={handleNewChat}
+      />
+      <GlobalProgressIndicator
+        sessionId={sessionId}
+        onRetry={() => retryStream(sessionId)}
+      />
+      <ChatInput
+        onSend={handleSendMessage}
+        onStop={() => stopStreaming(sessionId)}
+        isStreaming={isStreaming}
+        disabled={isLoadingSession}
+      />
+    </>
   );
 
   return (
@@ -272,35 +311,29 @@ export default function ChatSessionPage() {
       sessions={sessions}
       activeSessionId={sessionId}
       isLoadingSessions={isLoadingSessions}
+      hasMoreSessions={hasMoreSessions}
+      isLoadingMoreSessions={isLoadingMoreSessions}
+      loadMoreSessionsFailed={loadMoreSessionsFailed}
+      onLoadMoreSessions={fetchNextPage}
       onNewChat={handleNewChat}
+      onNewExploration={handleNewExploration}
       onSelectSession={handleSelectSession}
+      onSelectMessage={handleSelectMessage}
       onDeleteSession={handleDeleteSession}
+      onDeleteSessions={handleDeleteSessions}
       onRenameSession={handleRenameSession}
       isRenaming={updateSession.isPending}
+      sessionUsage={sessionUsage}
     >
       <ChatAreaErrorBoundary onReset={() => window.location.reload()}>
-        <MessageListErrorBoundary
-          onReset={() => queryClient.invalidateQueries({ queryKey: ["session", sessionId] })}
-        >
-          <MessageList
-            messages={messages}
-            sessionId={sessionId}
-            isStreaming={isStreaming}
-            streamingContent={streamingContent}
-            streamingContentBlocks={getContentBlocks()}
-            streamingToolCalls={getToolCalls()}
-            streamingCitations={streamingCitations}
-            onSelectPrompt={handleSendMessage}
-            onRetryMessage={handleRetryMessage}
-          />
-        </MessageListErrorBoundary>
-        <GlobalProgressIndicator />
-        <ChatInput
-          onSend={handleSendMessage}
-          onStop={stopStreaming}
-          isStreaming={isStreaming}
-          disabled={isLoadingSession}
-        />
+        {isExplorer ? (
+          <div className="flex flex-1 overflow-hidden" data-testid="explorer-layout">
+            <div className="flex min-w-0 flex-1 flex-col">{chatArea}</div>
+            <DataPane key={sessionId} outputs={explorerOutputs} />
+          </div>
+        ) : (
+          chatArea
+        )}
       </ChatAreaErrorBoundary>
     </ChatLayout>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
@@ -8,11 +8,24 @@ import { ChatLayout } from "@/components/layout/chat-layout";
 import { MessageList } from "@/components/chat/message-list";
 import { ChatInput } from "@/components/chat/chat-input";
 import { GlobalProgressIndicator } from "@/components/chat/global-progress-indicator";
-import { useSessions, useSession, useCreateSession, useDeleteSession, useUpdateSession } from "@/lib/hooks/use-sessions";
+import { StreamErrorNotice } from "@/components/chat/stream-error-notice";
+import {
+  useSessions,
+  useSession,
+  useCreateSession,
+  useUpdateSession,
+  useSoftDeleteSessions,
+} from "@/lib/hooks/use-sessions";
 import { useSessionStore } from "@/store/session-store";
-import { useChatStore } from "@/store/chat-store";
-import { streamMessage } from "@/lib/streaming";
-import { parseMarkdownToBlocks } from "@/lib/markdown-parser";
+import {
+  useChatStore,
+  useSessionStream,
+  getStreamToolCalls,
+  getStreamContentBlocks,
+} from "@/store/chat-store";
+import { useChatStream, useRetryStream } from "@/lib/hooks/use-chat-stream";
+import { sumUsage } from "@/lib/usage";
+import { getConversationPath } from "@/lib/branches";
 import type { Message } from "@/lib/types";
 
 export default function ChatPage() {
@@ -22,31 +35,34 @@ export default function ChatPage() {
   // Session state
   const { activeSessionId, setActiveSession } = useSessionStore();
 
-  // Chat streaming state
-  const {
-    isStreaming,
-    streamingContent,
-    startStreaming,
-    appendContent,
-    addToolCallStart,
-    updateToolCallEnd,
-    addCitation,
-    stopStreaming,
-    resetStreaming,
-    getToolCalls,
-    getContentBlocks,
-    streamingCitations,
-  } = useChatStore();
+  // Chat streaming state for the active session
+  const stream = useSessionStream(activeSessionId);
+  const { isStreaming, streamingContent, streamingCitations, reasoning, reasoningDurationMs } =
+    stream;
+  const streamingToolCalls = useMemo(() => getStreamToolCalls(stream), [stream]);
+  const streamingContentBlocks = useMemo(() => getStreamContentBlocks(stream), [stream]);
+  const stopStreaming = useChatStore((state) => state.stopStreaming);
+  const streamToSession = useChatStream();
+  const retryStream = useRetryStream();
 
   // API queries
-  const { data: sessionsData, isLoading: isLoadingSessions } = useSessions();
+  const {
+    data: sessionsData,
+    isLoading: isLoadingSessions,
+    hasNextPage: hasMoreSessions,
+    isFetchingNextPage: isLoadingMoreSessions,
+    isFetchNextPageError: loadMoreSessionsFailed,
+    fetchNextPage,
+  } = useSessions();
   const { data: sessionData, isLoading: isLoadingSession } = useSession(activeSessionId);
   const createSession = useCreateSession();
-  const deleteSession = useDeleteSession();
   const updateSession = useUpdateSession();
 
   const sessions = sessionsData?.sessions || [];
-  const messages = sessionData?.messages || [];
+  const allMessages = useMemo(() => sessionData?.messages || [], [sessionData]);
+  // Branched conversations show their newest branch
+  const messages = useMemo(() => getConversationPath(allMessages).messages, [allMessages]);
+  const sessionUsage = useMemo(() => sumUsage(allMessages), [allMessages]);
 
   // Handle new chat
   const handleNewChat = useCallback(async () => {
@@ -59,6 +75,17 @@ export default function ChatPage() {
     }
   }, [createSession, setActiveSession, router]);
 
+  // Handle new exploration, which collects tool outputs in a data pane
+  const handleNewExploration = useCallback(async () => {
+    try {
+      const newSession = await createSession.mutateAsync({ mode: "explorer" });
+      setActiveSession(newSession.id);
+      router.push(`/chat/${newSession.id}`);
+    } catch {
+      toast.error("Failed to create exploration");
+    }
+  }, [createSession, setActiveSession, router]);
+
   // Handle session selection
   const handleSelectSession = useCallback(
     (sessionId: string) => {
@@ -68,21 +95,27 @@ export default function ChatPage() {
     [setActiveSession, router]
   );
 
-  // Handle session deletion
-  const handleDeleteSession = useCallback(
-    async (sessionId: string) => {
-      try {
-        await deleteSession.mutateAsync(sessionId);
-        if (activeSessionId === sessionId) {
-          setActiveSession(null);
-          router.push("/chat");
-        }
-      } catch (error) {
-        toast.error("Failed to delete session");
+  // Handle opening a message found by search
+  const handleSelectMessage = useCallback(
+    (sessionId: string, messageId: string) => {
+      setActiveSession(sessionId);
+      router.push(`/chat/${sessionId}?message=${encodeURIComponent(messageId)}`);
+    },
+    [setActiveSession, router]
+  );
+
+  // Handle session deletion, leaving the open session if it was deleted
+  const handleSessionsDeleted = useCallback(
+    (sessionIds: string[]) => {
+      if (activeSessionId && sessionIds.includes(activeSessionId)) {
+        setActiveSession(null);
+        router.push("/chat");
       }
     },
-    [deleteSession, activeSessionId, setActiveSession, router]
+    [activeSessionId, setActiveSession, router]
   );
+  const { deleteSession: handleDeleteSession, deleteSessions: handleDeleteSessions } =
+    useSoftDeleteSessions(handleSessionsDeleted);
 
   // Handle session rename
   const handleRenameSession = useCallback(
@@ -118,59 +151,30 @@ export default function ChatPage() {
             }
           );
 
-          // Now send the message to the new session
-          const controller = startStreaming();
-
-          try {
-            await streamMessage(
-              newSession.id,
-              { content },
-              {
-                onContent: appendContent,
-                onToolCallStart: addToolCallStart,
-                onToolCallEnd: updateToolCallEnd,
-                onCitation: (source, sourceRef, reference) =>
-                  addCitation({ source, source_ref: sourceRef, reference }),
-                onDone: () => {
-                  // Log the complete message before resetting
-                  const state = useChatStore.getState();
-                  const rawText = state.streamingContent;
-                  const contentBlocks = parseMarkdownToBlocks(rawText);
-                  console.log("[Assistant Message Complete] Raw text:", rawText);
-                  console.log("[Assistant Message Complete] Content blocks:", contentBlocks);
-
-                  resetStreaming();
-                  queryClient.invalidateQueries({ queryKey: ["session", newSession.id] });
-                  // Delay sessions invalidation to allow backend title generation to complete
-                  setTimeout(() => {
-                    queryClient.invalidateQueries({ queryKey: ["sessions"] });
-                  }, 1500);
-                },
-                onError: (code, message) => {
-                  toast.error(message || "Failed to get response");
-                  resetStreaming();
-                },
-              },
-              controller.signal
-            );
-          } catch (error) {
-            if ((error as Error).name !== "AbortError") {
-              toast.error((error as Error).message || "Failed to get response");
-            }
-            resetStreaming();
-          }
+          // Now send the message to the new session; the stream keeps
+          // running after navigation since it is keyed by session id
+          await streamToSession(
+            newSession.id,
+            { content },
+            { userMessageId: userMessage.id }
+          );
         } catch (error) {
           toast.error("Failed to create chat session");
         }
         return;
       }
 
+      // Continue the branch on screen from its last message
+      const lastMessageId = messages[messages.length - 1]?.id;
+      const parentId = lastMessageId?.startsWith("temp-") ? undefined : lastMessageId;
+
       // Add optimistic user message
       const userMessage: Message = {
         id: `temp-${Date.now()}`,
         role: "user",
         content,
         created_at: new Date().toISOString(),
+        parent_id: parentId,
       };
 
       queryClient.setQueryData(
@@ -184,58 +188,19 @@ export default function ChatPage() {
             : old
       );
 
-      const controller = startStreaming();
-
-      try {
-        await streamMessage(
-          activeSessionId,
-          { content },
-          {
-            onContent: appendContent,
-            onToolCallStart: addToolCallStart,
-            onToolCallEnd: updateToolCallEnd,
-            onCitation: (source, sourceRef, reference) =>
-              addCitation({ source, source_ref: sourceRef, reference }),
-            onDone: () => {
-              // Log the complete message before resetting
-              const state = useChatStore.getState();
-              const rawText = state.streamingContent;
-              const contentBlocks = parseMarkdownToBlocks(rawText);
-              console.log("[Assistant Message Complete] Raw text:", rawText);
-              console.log("[Assistant Message Complete] Content blocks:", contentBlocks);
-
-              resetStreaming();
-              queryClient.invalidateQueries({ queryKey: ["session", activeSessionId] });
-              // Delay sessions invalidation to allow backend title generation to complete
-              setTimeout(() => {
-                queryClient.invalidateQueries({ queryKey: ["sessions"] });
-              }, 1500);
-            },
-            onError: (code, message) => {
-              toast.error(message || "Failed to get response");
-              resetStreaming();
-            },
-          },
-          controller.signal
-        );
-      } catch (error) {
-        if ((error as Error).name !== "AbortError") {
-          toast.error((error as Error).message || "Failed to get response");
-        }
-        resetStreaming();
-      }
+      await streamToSession(
+        activeSessionId,
+        { content, parent_id: parentId },
+        { userMessageId: userMessage.id }
+      );
     },
     [
       activeSessionId,
+      messages,
       createSession,
       setActiveSession,
       router,
-      startStreaming,
-      appendContent,
-      addToolCallStart,
-      updateToolCallEnd,
-      addCitation,
-      resetStreaming,
+      streamToSession,
       queryClient,
     ]
   );
@@ -245,26 +210,44 @@ export default function ChatPage() {
       sessions={sessions}
       activeSessionId={activeSessionId}
       isLoadingSessions={isLoadingSessions}
+      hasMoreSessions={hasMoreSessions}
+      isLoadingMoreSessions={isLoadingMoreSessions}
+      loadMoreSessionsFailed={loadMoreSessionsFailed}
+      onLoadMoreSessions={fetchNextPage}
       onNewChat={handleNewChat}
+      onNewExploration={handleNewExploration}
       onSelectSession={handleSelectSession}
+      onSelectMessage={handleSelectMessage}
       onDeleteSession={handleDeleteSession}
+      onDeleteSessions={handleDeleteSessions}
       onRenameSession={handleRenameSession}
       isRenaming={updateSession.isPending}
+      sessionUsage={sessionUsage}
     >
       <MessageList
         messages={messages}
         sessionId={activeSessionId}
         isStreaming={isStreaming}
         streamingContent={streamingContent}
-        streamingContentBlocks={getContentBlocks()}
-        streamingToolCalls={getToolCalls()}
+        streamingContentBlocks={streamingContentBlocks}
+        streamingToolCalls={streamingToolCalls}
         streamingCitations={streamingCitations}
+        streamingReasoning={reasoning}
+        streamingReasoningDurationMs={reasoningDurationMs}
         onSelectPrompt={handleSendMessage}
       />
-      <GlobalProgressIndicator />
+      <StreamErrorNotice
+        sessionId={activeSessionId}
+        onRetry={(failedSessionId, request) => streamToSession(failedSessionId, request)}
+        onNewChat={handleNewChat}
+      />
+      <GlobalProgressIndicator
+        sessionId={activeSessionId}
+        onRetry={() => activeSessionId && retryStream(activeSessionId)}
+      />
       <ChatInput
         onSend={handleSendMessage}
-        onStop={stopStreaming}
+        onStop={() => activeSessionId && stopStreaming(activeSessionId)}
         isStreaming={isStreaming}
         disabled={isLoadingSession}
       />
@@ -1,8 +1,9 @@
 "use client";
 
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { useState, type ReactNode } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 import { AuthProvider } from "@/lib/auth-context";
+import { syncSessionsAcrossTabs } from "@/lib/hooks/use-sessions";
 import { TooltipProvider } from "@/components/ui/tooltip";
 
 interface ProvidersProps {
@@ -22,6 +23,8 @@ export function Providers({ children }: ProvidersProps) {
       })
   );
 
+  useEffect(() => syncSessionsAcrossTabs(queryClient), [queryClient]);
+
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
@@ -1,5 +1,6 @@
 "use client";
 
+import { memo, useEffect, useMemo } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import remarkBreaks from "remark-breaks";
@@ -29,6 +30,8 @@ import type {
 
 import "katex/dist/katex.min.css";
 import { ContentBlockErrorBoundary } from "@/components/error-boundary";
+import { validateContentBlock } from "@/lib/validation";
+import { reportInvalidPayload } from "@/lib/sentry";
 
 interface ContentBlockRendererProps {
   blocks: ContentBlock[];
@@ -56,7 +59,24 @@ interface BlockRendererProps {
   block: ContentBlock;
 }
 
-function BlockRenderer({ block }: BlockRendererProps) {
+/**
+ * Memoized by block identity, so blocks frozen during streaming are not
+ * re-rendered as new content arrives. Blocks that don't match their schema
+ * render a placeholder instead of reaching (and crashing) their renderer.
+ */
+const BlockRenderer = memo(function BlockRenderer({ block }: BlockRendererProps) {
+  const validation = useMemo(() => validateContentBlock(block), [block]);
+
+  useEffect(() => {
+    if (!validation.ok) {
+      reportInvalidPayload("content_block", validation.issue, block);
+    }
+  }, [validation, block]);
+
+  if (!validation.ok) {
+    return <InvalidBlockPlaceholder />;
+  }
+
   switch (block.type) {
     case "text":
       return <TextBlockRenderer block={block} />;
@@ -87,6 +107,18 @@ function BlockRenderer({ block }: BlockRendererProps) {
     default:
       return null;
   }
+});
+
+function InvalidBlockPlaceholder() {
+  return (
+    <div
+      className="flex items-center gap-2 rounded-lg border border-dashed border-border px-4 py-3 text-sm text-muted-foreground"
+      data-testid="invalid-content-block"
+    >
+      <AlertCircle className="h-4 w-4 shrink-0" />
+      This content couldn&apos;t be displayed
+    </div>
+  );
 }
 
 /**
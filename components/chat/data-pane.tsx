@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3, Braces, Database, Table as TableIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatCellValue,
+  getOutputChart,
+  getOutputTable,
+  type ExplorerOutput,
+} from "@/lib/explorer";
+import { ChartBlockRenderer } from "./chart-block";
+import { formatToolName } from "./tool-call";
+
+type DataView = "table" | "chart" | "json";
+
+// Table rows rendered at once; the raw JSON view has the rest
+const MAX_TABLE_ROWS = 500;
+
+interface DataPaneProps {
+  outputs: ExplorerOutput[];
+}
+
+/**
+ * Side pane of an exploration, collecting the conversation's tool outputs so
+ * they can be browsed as a table, chart or raw JSON. Shows the newest output
+ * until another one is picked.
+ */
+export function DataPane({ outputs }: DataPaneProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preferredView, setPreferredView] = useState<DataView | null>(null);
+
+  const selected =
+    outputs.find((output) => output.id === selectedId) ?? outputs[outputs.length - 1];
+  const table = selected ? getOutputTable(selected.output) : null;
+  const chart = selected ? getOutputChart(selected.output) : null;
+  const views: DataView[] = [
+    ...(table ? (["table"] as const) : []),
+    ...(chart ? (["chart"] as const) : []),
+    "json",
+  ];
+  // Fall back to the richest view this output has
+  const view = preferredView && views.includes(preferredView) ? preferredView : views[0];
+
+  return (
+    <aside
+      className="flex w-[40%] min-w-[320px] max-w-[640px] flex-col border-l border-border bg-background"
+      aria-label="Data"
+      data-testid="data-pane"
+    >
+      <div className="flex items-center gap-2 border-b border-border px-4 py-2 text-sm font-medium">
+        <Database className="h-4 w-4 text-muted-foreground" />
+        Data
+        <span className="text-xs font-normal text-muted-foreground">{outputs.length}</span>
+      </div>
+
+      {outputs.length === 0 ? (
+        <div className="flex flex-1 items-center justify-center p-6 text-center text-sm text-muted-foreground">
+          Tool results from this exploration will collect here.
+        </div>
+      ) : (
+        <>
+          <div
+            className="flex gap-1 overflow-x-auto border-b border-border px-2 py-2"
+            role="tablist"
+            aria-label="Tool outputs"
+          >
+            {outputs.map((output, index) => (
+              <button
+                key={output.id}
+                type="button"
+                role="tab"
+                aria-selected={output.id === selected?.id}
+                className={cn(
+                  "shrink-0 rounded-md px-2 py-1 text-xs transition-colors",
+                  output.id === selected?.id
+                    ? "bg-accent text-accent-foreground"
+                    : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                )}
+                onClick={() => setSelectedId(output.id)}
+                data-testid={`data-output-${output.id}`}
+              >
+                {index + 1}. {formatToolName(output.tool)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-1 px-2 pt-2" role="group" aria-label="View as">
+            {views.map((option) => {
+              const Icon = { table: TableIcon, chart: BarChart3, json: Braces }[option];
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  className={cn(
+                    "flex items-center gap-1 rounded-md border px-2 py-1 text-xs capitalize transition-colors",
+                    option === view
+                      ? "border-primary/50 bg-primary/10 text-foreground"
+                      : "border-border text-muted-foreground hover:text-foreground"
+                  )}
+                  onClick={() => setPreferredView(option)}
+                  aria-pressed={option === view}
+                  data-testid={`data-view-${option}`}
+                >
+                  <Icon className="h-3 w-3" />
+                  {option === "json" ? "Raw JSON" : option}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 overflow-auto p-2" data-testid="data-pane-content">
+            {view === "table" && table ? (
+              <>
+                <table className="w-full border-collapse text-xs">
+                  <thead className="sticky top-0 bg-muted">
+                    <tr>
+                      {table.columns.map((column) => (
+                        <th
+                          key={column}
+                          className="border border-border px-2 py-1 text-left font-medium"
+                        >
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(0, MAX_TABLE_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="hover:bg-muted/50">
+                        {table.columns.map((column) => (
+                          <td
+                            key={column}
+                            className="max-w-48 truncate border border-border px-2 py-1"
+                            title={formatCellValue(row[column])}
+                          >
+                            {formatCellValue(row[column])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {table.rows.length > MAX_TABLE_ROWS && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Showing {MAX_TABLE_ROWS} of {table.rows.length} rows.
+                  </p>
+                )}
+              </>
+            ) : view === "chart" && chart ? (
+              <ChartBlockRenderer block={chart} />
+            ) : (
+              <pre className="overflow-x-auto rounded bg-muted p-2 text-xs">
+                {JSON.stringify(selected?.output, null, 2)}
+              </pre>
+            )}
+          </div>
+        </>
+      )}
+    </aside>
+  );
+}
@@ -1,17 +1,34 @@
 "use client";
 
-import { Loader2 } from "lucide-react";
-import { useChatStore } from "@/store/chat-store";
+import { Loader2, AlertTriangle } from "lucide-react";
+import { useChatStore, useSessionStream } from "@/store/chat-store";
 import { useElapsedTime } from "@/hooks/use-elapsed-time";
 import { PHASE_LABELS } from "@/lib/types";
 import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
 
-export function GlobalProgressIndicator() {
-  const { isStreaming, currentPhase, phaseStartedAt, currentToolName, currentIteration } = useChatStore();
+interface GlobalProgressIndicatorProps {
+  sessionId: string | null;
+  onRetry?: () => void;
+}
+
+export function GlobalProgressIndicator({ sessionId, onRetry }: GlobalProgressIndicatorProps) {
+  const {
+    isStreaming,
+    isStalled,
+    reconnectAttempt,
+    currentPhase,
+    phaseStartedAt,
+    currentToolName,
+    currentIteration,
+  } = useSessionStream(sessionId);
+  const setStalled = useChatStore((state) => state.setStalled);
   const elapsed = useElapsedTime(phaseStartedAt ?? 0);
 
   // Use explicit null checks to handle edge case where phaseStartedAt could be 0
-  const isVisible = isStreaming && currentPhase !== null && phaseStartedAt !== null;
+  const hasPhase = currentPhase !== null && phaseStartedAt !== null;
+  const isReconnecting = reconnectAttempt !== null;
+  const isVisible = isStreaming && (hasPhase || isStalled || isReconnecting);
 
   // Build dynamic label based on phase and metadata
   let label = currentPhase ? (PHASE_LABELS[currentPhase] || currentPhase) : "";
@@ -27,14 +44,47 @@ export function GlobalProgressIndicator() {
         "fixed bottom-4 left-4 z-50 flex items-center gap-2 rounded-full bg-background/95 backdrop-blur border border-border px-4 py-2 shadow-lg transition-all duration-300",
         isVisible
           ? "opacity-100 translate-y-0"
-          : "opacity-0 translate-y-2 pointer-events-none"
+          : "opacity-0 translate-y-2 pointer-events-none",
+        isStalled && "border-amber-500/50"
       )}
+      data-testid="global-progress-indicator"
     >
-      <Loader2 className="h-4 w-4 animate-spin text-primary" />
-      <span className="text-sm text-muted-foreground">
-        {label}
-        <span className="ml-1 tabular-nums">({elapsed.toFixed(1)}s)</span>
-      </span>
+      {isStalled ? (
+        <>
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <span className="text-sm text-muted-foreground" data-testid="stream-stalled">
+            Response seems stuck
+          </span>
+          {onRetry && (
+            <Button size="sm" variant="outline" className="h-7 rounded-full" onClick={onRetry}>
+              Retry
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 rounded-full"
+            onClick={() => sessionId && setStalled(sessionId, false)}
+          >
+            Keep waiting
+          </Button>
+        </>
+      ) : isReconnecting ? (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          <span className="text-sm text-muted-foreground" data-testid="stream-reconnecting">
+            Connection lost, reconnecting…
+          </span>
+        </>
+      ) : (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          <span className="text-sm text-muted-foreground">
+            {label}
+            <span className="ml-1 tabular-nums">({elapsed.toFixed(1)}s)</span>
+          </span>
+        </>
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState, type KeyboardEvent } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import remarkBreaks from "remark-breaks";
@@ -9,17 +9,40 @@ import remarkEmoji from "remark-emoji";
 import rehypeHighlight from "rehype-highlight";
 import rehypeKatex from "rehype-katex";
 import rehypeSanitize from "rehype-sanitize";
-import { User, Bot, ChevronRight, Copy, Check, RotateCcw } from "lucide-react";
+import {
+  User,
+  Bot,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Check,
+  RotateCcw,
+  Pencil,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { sanitizeOptions, convertAsciiTablesToMarkdown } from "@/lib/markdown";
 import { CodeBlock } from "./code-block";
 import { MermaidDiagram } from "./mermaid-diagram";
 import { ToolCallDisplay } from "./tool-call";
 import { CitationDisplay } from "./citation";
+import { ReasoningTrace } from "./reasoning-trace";
 import { ContentBlockRenderer } from "./content-block-renderer";
-import { parseMarkdownToBlocks } from "@/lib/markdown-parser";
+import {
+  parseMarkdownToBlocks,
+  createIncrementalMarkdownParser,
+} from "@/lib/markdown-parser";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
-import type { Message, ToolCall, Citation, ContentBlock as ContentBlockType } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { formatCost, formatTokenCount } from "@/lib/usage";
+import type {
+  Message,
+  ToolCall,
+  Citation,
+  TokenUsage,
+  ToolApprovalRequest,
+  ContentBlock as ContentBlockType,
+} from "@/lib/types";
 
 import "highlight.js/styles/github-dark.css";
 import "katex/dist/katex.min.css";
@@ -111,6 +134,11 @@ function calculateRemainingContent(fullContent: string, blocks: ContentBlockType
   return remaining.replace(/^[\n\r]+/, "");
 }
 
+interface MessageBranch {
+  index: number;
+  count: number;
+}
+
 interface MessageItemProps {
   message: Message;
   isStreaming?: boolean;
@@ -120,7 +148,21 @@ interface MessageItemProps {
   citations?: Citation[];
   responseTimeMs?: number;
   contentBlocks?: ContentBlockType[];
+  // Briefly marks a message opened from search
+  highlighted?: boolean;
   onRetry?: () => void;
+  // Resubmits a user message with new content as a branch of the conversation
+  onEdit?: (content: string) => void;
+  // Position among the alternatives where the conversation branches at this message
+  branch?: MessageBranch;
+  // Shows the previous (-1) or next (1) alternative
+  onSwitchBranch?: (offset: -1 | 1) => void;
+  // Records a decision on a tool call awaiting approval (streaming only)
+  onToolApproval?: (
+    toolCall: ToolCall,
+    request: ToolApprovalRequest,
+    alwaysAllow: boolean
+  ) => void;
 }
 
 export function MessageItem({
@@ -132,41 +174,57 @@ export function MessageItem({
   citations,
   responseTimeMs,
   contentBlocks,
+  highlighted = false,
   onRetry,
+  onEdit,
+  branch,
+  onSwitchBranch,
+  onToolApproval,
 }: MessageItemProps) {
   const isUser = message.role === "user";
+  const [isEditing, setIsEditing] = useState(false);
+  const showEditor = isEditing && onEdit !== undefined;
   const rawContent = isStreaming ? streamingContent : message.content;
   // Convert ASCII-art tables to proper markdown tables for rendering
-  const content = rawContent ? convertAsciiTablesToMarkdown(rawContent) : "";
+  const content = useMemo(
+    () => (rawContent ? convertAsciiTablesToMarkdown(rawContent) : ""),
+    [rawContent]
+  );
   const displayToolCalls = toolCalls || message.tool_calls || [];
   const displayCitations = citations || message.citations || [];
   const displayResponseTime = responseTimeMs ?? message.response_time_ms;
 
   // Use content blocks if available from backend, otherwise parse markdown into blocks
   const displayContentBlocks = contentBlocks || message.content_blocks;
-
-  // Calculate content for streaming vs finalized rendering
-  let completedBlocks: ContentBlockType[] = [];
-  let inProgressContent = "";
-
-  if (isStreaming) {
-    // During streaming: use backend content blocks + remaining raw text
-    if (streamingContentBlocks && streamingContentBlocks.length > 0) {
-      completedBlocks = streamingContentBlocks;
-      // Calculate the remaining text that hasn't been parsed into blocks yet
-      inProgressContent = calculateRemainingContent(content, streamingContentBlocks);
-    } else {
-      // No content blocks yet, show raw content as in-progress
-      inProgressContent = content;
+  // Freezes completed blocks while streaming so only the open tail re-renders
+  const [incrementalParser] = useState(createIncrementalMarkdownParser);
+
+  // Calculate content for streaming vs finalized rendering (memoized so that
+  // re-renders caused by other messages don't re-parse this one)
+  const { completedBlocks, inProgressContent } = useMemo(() => {
+    if (isStreaming) {
+      // During streaming: use backend content blocks + remaining raw text
+      if (streamingContentBlocks && streamingContentBlocks.length > 0) {
+        return {
+          completedBlocks: streamingContentBlocks,
+          // Calculate the remaining text that hasn't been parsed into blocks yet
+          inProgressContent: calculateRemainingContent(content, streamingContentBlocks),
+        };
+      }
+      // No content blocks from the backend: freeze blocks as they complete
+      const { blocks, pending } = incrementalParser.update(content);
+      return { completedBlocks: blocks, inProgressContent: pending };
     }
-  } else {
+
     // Finalized message: use pre-parsed blocks from backend if available
     if (displayContentBlocks && displayContentBlocks.length > 0) {
-      completedBlocks = displayContentBlocks;
-    } else if (content) {
-      completedBlocks = parseMarkdownToBlocks(content);
+      return { completedBlocks: displayContentBlocks, inProgressContent: "" };
     }
-  }
+    return {
+      completedBlocks: content ? parseMarkdownToBlocks(content) : [],
+      inProgressContent: "",
+    };
+  }, [isStreaming, streamingContentBlocks, displayContentBlocks, content, incrementalParser]);
 
   const hasCompletedBlocks = completedBlocks.length > 0;
   const hasInProgressContent = inProgressContent.trim().length > 0;
@@ -174,10 +232,13 @@ export function MessageItem({
   return (
     <div
       className={cn(
-        "flex gap-4 p-4",
-        isUser ? "bg-background" : "bg-muted/50"
+        "flex gap-4 p-4 transition-shadow duration-500",
+        isUser ? "bg-background" : "bg-muted/50",
+        highlighted && "ring-2 ring-inset ring-primary/60"
       )}
       data-testid={isUser ? "user-message" : "assistant-message"}
+      data-message-id={message.id}
+      data-highlighted={highlighted || undefined}
     >
       <div
         className={cn(
@@ -197,10 +258,26 @@ export function MessageItem({
           {isUser ? "You" : "Badlands AI"}
         </div>
 
+        {!isUser && message.reasoning && (
+          <ReasoningTrace
+            reasoning={message.reasoning}
+            durationMs={message.reasoning_duration_ms}
+            isThinking={isStreaming && message.reasoning_duration_ms == null}
+          />
+        )}
+
         {!isUser && displayToolCalls.length > 0 && (
           <div className="mb-4 space-y-2">
             {displayToolCalls.map((toolCall) => (
-              <ToolCallDisplay key={toolCall.id} toolCall={toolCall} />
+              <ToolCallDisplay
+                key={toolCall.id}
+                toolCall={toolCall}
+                onApprovalDecision={
+                  onToolApproval
+                    ? (request, alwaysAllow) => onToolApproval(toolCall, request, alwaysAllow)
+                    : undefined
+                }
+              />
             ))}
           </div>
         )}
@@ -213,13 +290,24 @@ export function MessageItem({
           </div>
         )}
 
+        {showEditor && (
+          <MessageEditor
+            initialContent={message.content}
+            onCancel={() => setIsEditing(false)}
+            onSubmit={(edited) => {
+              setIsEditing(false);
+              onEdit(edited);
+            }}
+          />
+        )}
+
         {/* Render completed content blocks with rich formatting */}
-        {hasCompletedBlocks && (
+        {!showEditor && hasCompletedBlocks && (
           <ContentBlockRenderer blocks={completedBlocks} />
         )}
 
         {/* Render in-progress content (during streaming) */}
-        {hasInProgressContent && (
+        {!showEditor && hasInProgressContent && (
           <div className={cn(
             "prose prose-sm dark:prose-invert max-w-none prose-pre:bg-transparent prose-pre:p-0",
             hasCompletedBlocks && "mt-4"
@@ -424,13 +512,19 @@ export function MessageItem({
           </div>
         )}
 
-        <MessageFooter
-          content={content}
-          isUser={isUser}
-          responseTimeMs={displayResponseTime}
-          createdAt={message.created_at}
-          onRetry={onRetry}
-        />
+        {!showEditor && (
+          <MessageFooter
+            content={content}
+            isUser={isUser}
+            responseTimeMs={displayResponseTime}
+            usage={message.usage}
+            createdAt={message.created_at}
+            onRetry={onRetry}
+            onEdit={onEdit ? () => setIsEditing(true) : undefined}
+            branch={branch}
+            onSwitchBranch={onSwitchBranch}
+          />
+        )}
       </div>
     </div>
   );
@@ -480,20 +574,83 @@ function formatFullDateTime(dateString: string): string {
 }
 
 /**
- * Footer for messages with copy button and response time (for assistant).
+ * Inline editor for a sent user message. Enter resubmits, Escape cancels.
+ */
+function MessageEditor({
+  initialContent,
+  onCancel,
+  onSubmit,
+}: {
+  initialContent: string;
+  onCancel: () => void;
+  onSubmit: (content: string) => void;
+}) {
+  const [draft, setDraft] = useState(initialContent);
+  const edited = draft.trim();
+  const canSubmit = edited.length > 0 && edited !== initialContent.trim();
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      if (canSubmit) onSubmit(edited);
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid="message-editor">
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="min-h-[44px] max-h-[300px]"
+        aria-label="Edit message"
+        autoFocus
+        data-testid="message-edit-input"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} data-testid="message-edit-cancel">
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSubmit(edited)}
+          disabled={!canSubmit}
+          data-testid="message-edit-submit"
+        >
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Footer for messages with copy button, branch switcher, response time and
+ * token usage (for assistant).
  */
 function MessageFooter({
   content,
   isUser,
   responseTimeMs,
+  usage,
   createdAt,
   onRetry,
+  onEdit,
+  branch,
+  onSwitchBranch,
 }: {
   content: string;
   isUser: boolean;
   responseTimeMs?: number;
+  usage?: TokenUsage;
   createdAt?: string;
   onRetry?: () => void;
+  onEdit?: () => void;
+  branch?: MessageBranch;
+  onSwitchBranch?: (offset: -1 | 1) => void;
 }) {
   const [copied, setCopied] = useState(false);
 
@@ -505,6 +662,31 @@ function MessageFooter({
 
   return (
     <div className="mt-2 flex items-center gap-3 text-xs text-muted-foreground">
+      {branch && branch.count > 1 && (
+        <div className="flex items-center gap-1 tabular-nums" data-testid="branch-switcher">
+          <button
+            onClick={() => onSwitchBranch?.(-1)}
+            disabled={!onSwitchBranch || branch.index === 0}
+            className="hover:text-foreground transition-colors cursor-pointer disabled:cursor-default disabled:opacity-50"
+            aria-label="Previous version"
+            data-testid="branch-previous"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </button>
+          <span>
+            {branch.index + 1}/{branch.count}
+          </span>
+          <button
+            onClick={() => onSwitchBranch?.(1)}
+            disabled={!onSwitchBranch || branch.index === branch.count - 1}
+            className="hover:text-foreground transition-colors cursor-pointer disabled:cursor-default disabled:opacity-50"
+            aria-label="Next version"
+            data-testid="branch-next"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
       <Tooltip>
         <TooltipTrigger asChild>
           <button
@@ -523,6 +705,23 @@ function MessageFooter({
           {copied ? "Copied!" : "Copy"}
         </TooltipContent>
       </Tooltip>
+      {isUser && onEdit && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              onClick={onEdit}
+              className="hover:text-foreground transition-colors cursor-pointer"
+              aria-label="Edit message"
+              data-testid="edit-message"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            Edit
+          </TooltipContent>
+        </Tooltip>
+      )}
       {!isUser && onRetry && (
         <Tooltip>
           <TooltipTrigger asChild>
@@ -549,6 +748,20 @@ function MessageFooter({
           </TooltipContent>
         </Tooltip>
       )}
+      {!isUser && usage && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="cursor-default tabular-nums" data-testid="message-usage">
+              {formatTokenCount(usage.input_tokens)} in · {formatTokenCount(usage.output_tokens)} out
+              · {formatCost(usage.cost_usd)}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            {usage.input_tokens.toLocaleString()} input + {usage.output_tokens.toLocaleString()} output
+            = {usage.total_tokens.toLocaleString()} tokens
+          </TooltipContent>
+        </Tooltip>
+      )}
     </div>
   );
 }
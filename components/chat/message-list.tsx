@@ -1,9 +1,10 @@
 "use client";
 
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useState } from "react";
 import { Bot } from "lucide-react";
 import { MessageItem } from "./message-item";
 import { EmptyState } from "./empty-state";
+import { useToolApproval } from "@/lib/hooks/use-tool-approval";
 import type { Message, ToolCall, Citation, ContentBlock } from "@/lib/types";
 
 // Store scroll positions outside component to persist across remounts
@@ -12,33 +13,53 @@ const scrollPositions = new Map<string, number>();
 // Threshold in pixels to consider "at bottom" (accounts for small variations)
 const SCROLL_THRESHOLD = 50;
 
+// How long a message opened from search stays highlighted
+const HIGHLIGHT_DURATION_MS = 2000;
+
 interface MessageListProps {
   messages: Message[];
   sessionId?: string | null;
+  // Scrolls to and briefly highlights this message once it renders
+  highlightMessageId?: string | null;
   isStreaming?: boolean;
   streamingContent?: string;
   streamingContentBlocks?: ContentBlock[];
   streamingToolCalls?: ToolCall[];
   streamingCitations?: Citation[];
+  streamingReasoning?: string;
+  streamingReasoningDurationMs?: number | null;
   onSelectPrompt?: (prompt: string) => void;
   onRetryMessage?: (messageId: string) => void;
+  // Alternatives of shown messages where the conversation branches, by message id
+  branches?: Record<string, string[]>;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
 }
 
 export function MessageList({
   messages,
   sessionId,
+  highlightMessageId,
   isStreaming,
   streamingContent,
   streamingContentBlocks,
   streamingToolCalls,
   streamingCitations,
+  streamingReasoning,
+  streamingReasoningDurationMs,
   onSelectPrompt,
   onRetryMessage,
+  branches,
+  onEditMessage,
+  onSwitchBranch,
 }: MessageListProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const lastMessageCount = useRef(0);
   const isAtBottomRef = useRef(true);
+  const handleToolApproval = useToolApproval(sessionId);
+  const jumpedToRef = useRef<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   // Check if user is at the bottom of the scroll
   const checkIfAtBottom = useCallback(() => {
@@ -84,6 +105,31 @@ export function MessageList({
     return () => clearTimeout(timer);
   }, [sessionId, checkIfAtBottom]);
 
+  // Jump to the requested message once it has rendered. Declared after the
+  // restore above so that, when both are pending, the jump wins
+  useEffect(() => {
+    if (!highlightMessageId || jumpedToRef.current === highlightMessageId) return;
+    if (!messages.some((message) => message.id === highlightMessageId)) return;
+
+    const timer = setTimeout(() => {
+      const container = containerRef.current;
+      const element = Array.from(
+        container?.querySelectorAll<HTMLElement>("[data-message-id]") ?? []
+      ).find((el) => el.dataset.messageId === highlightMessageId);
+      element?.scrollIntoView({ block: "center" });
+      jumpedToRef.current = highlightMessageId;
+      isAtBottomRef.current = checkIfAtBottom();
+      setHighlightedId(highlightMessageId);
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [highlightMessageId, messages, checkIfAtBottom]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
   // Scroll to bottom when user sends a message
   useEffect(() => {
     const newCount = messages.length;
@@ -101,39 +147,60 @@ export function MessageList({
     if (isStreaming && isAtBottomRef.current) {
       bottomRef.current?.scrollIntoView({ behavior: "smooth" });
     }
-  }, [isStreaming, streamingContent, streamingToolCalls]);
+  }, [isStreaming, streamingContent, streamingToolCalls, streamingReasoning]);
 
   // Create a streaming message placeholder
-  // Show when streaming AND (has content OR has tool calls)
+  // Show when streaming AND (has content OR has tool calls OR is reasoning)
   const hasToolCalls = streamingToolCalls && streamingToolCalls.length > 0;
   const streamingMessage: Message | null =
-    isStreaming && (streamingContent || hasToolCalls)
+    isStreaming && (streamingContent || hasToolCalls || streamingReasoning)
       ? {
           id: "streaming",
           role: "assistant",
           content: streamingContent || "",
           created_at: new Date().toISOString(),
+          reasoning: streamingReasoning || undefined,
+          reasoning_duration_ms: streamingReasoningDurationMs ?? undefined,
         }
       : null;
 
   return (
     <div ref={containerRef} className="flex-1 overflow-y-auto">
       <div className="divide-y divide-border">
-        {messages.map((message) => (
-          <MessageItem
-            key={message.id}
-            message={message}
-            responseTimeMs={message.response_time_ms}
-            onRetry={
-              message.role === "assistant" && onRetryMessage
-                ? () => onRetryMessage(message.id)
-                : undefined
-            }
-          />
-        ))}
+        {messages.map((message) => {
+          const alternatives = branches?.[message.id];
+          const branchIndex = alternatives?.indexOf(message.id) ?? 0;
+          return (
+            <MessageItem
+              key={message.id}
+              message={message}
+              responseTimeMs={message.response_time_ms}
+              highlighted={message.id === highlightedId}
+              onRetry={
+                message.role === "assistant" && onRetryMessage
+                  ? () => onRetryMessage(message.id)
+                  : undefined
+              }
+              // Editing and switching branches wait for the current response
+              onEdit={
+                message.role === "user" && onEditMessage && !isStreaming
+                  ? (content) => onEditMessage(message.id, content)
+                  : undefined
+              }
+              branch={
+                alternatives ? { index: branchIndex, count: alternatives.length } : undefined
+              }
+              onSwitchBranch={
+                alternatives && onSwitchBranch && !isStreaming
+                  ? (offset) => onSwitchBranch(alternatives[branchIndex + offset])
+                  : undefined
+              }
+            />
+          );
+        })}
 
         {/* Show waiting indicator when streaming but no content yet */}
-        {isStreaming && !streamingContent && streamingToolCalls?.length === 0 && (
+        {isStreaming && !streamingContent && !streamingReasoning && streamingToolCalls?.length === 0 && (
           <div className="flex gap-4 p-4 bg-muted/50" data-testid="assistant-message">
             <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-secondary">
               <Bot className="h-5 w-5" />
@@ -157,6 +224,7 @@ export function MessageList({
             streamingContentBlocks={streamingContentBlocks}
             toolCalls={streamingToolCalls}
             citations={streamingCitations}
+            onToolApproval={handleToolApproval}
           />
         )}
 
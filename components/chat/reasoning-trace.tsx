@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Brain, Loader2 } from "lucide-react";
+import { formatReasoningDuration } from "@/lib/reasoning";
+
+interface ReasoningTraceProps {
+  reasoning: string;
+  durationMs?: number | null;
+  // Reasoning is still streaming (no answer yet)
+  isThinking?: boolean;
+}
+
+/**
+ * Collapsible reasoning summary shown above an assistant answer.
+ */
+export function ReasoningTrace({ reasoning, durationMs, isThinking = false }: ReasoningTraceProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-4 rounded-lg border border-border bg-card" data-testid="reasoning-trace">
+      <button
+        className="flex w-full items-center gap-2 p-3 text-left text-sm text-muted-foreground hover:bg-muted/50 transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        {isThinking ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Brain className="h-4 w-4" />
+        )}
+        <span className="font-medium">
+          {isThinking ? "Thinking…" : formatReasoningDuration(durationMs)}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div
+          className="border-t border-border p-3 text-sm text-muted-foreground whitespace-pre-wrap"
+          data-testid="reasoning-text"
+        >
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import { AlertTriangle, Clock, MessageSquarePlus, Wallet, X } from "lucide-react";
+import { useChatStore, useStreamFailure, type StreamFailure } from "@/store/chat-store";
+import { useBudget } from "@/lib/hooks/use-budget";
+import {
+  BudgetExceededError,
+  ContextTooLongError,
+  RateLimitError,
+} from "@/lib/errors";
+import { formatCost } from "@/lib/usage";
+import type { SendMessageRequest } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+// Used when a rate limit response doesn't say how long to wait
+const DEFAULT_RATE_LIMIT_RETRY_MS = 30000;
+
+interface StreamErrorNoticeProps {
+  sessionId: string | null;
+  onRetry: (sessionId: string, request: SendMessageRequest) => void;
+  onNewChat: () => void;
+}
+
+/**
+ * Recovery notice for a response that failed with a rate limit, an exhausted
+ * budget or an over-long conversation. Other errors are shown as toasts.
+ */
+export function StreamErrorNotice({ sessionId, onRetry, onNewChat }: StreamErrorNoticeProps) {
+  const failure = useStreamFailure(sessionId);
+  const clearFailure = useChatStore((state) => state.clearFailure);
+
+  if (!sessionId || !failure) return null;
+
+  const dismiss = () => clearFailure(sessionId);
+  const { error, request } = failure;
+
+  let content: ReactNode = null;
+  if (error instanceof RateLimitError) {
+    content = (
+      <RateLimitNotice
+        failure={failure}
+        onRetry={request ? () => onRetry(sessionId, request) : undefined}
+      />
+    );
+  } else if (error instanceof BudgetExceededError) {
+    content = <BudgetNotice message={error.message} />;
+  } else if (error instanceof ContextTooLongError) {
+    content = (
+      <>
+        <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+        <span className="flex-1">
+          This conversation is too long to continue. Start a new chat to keep going.
+        </span>
+        <Button size="sm" variant="outline" onClick={onNewChat} data-testid="error-new-chat">
+          <MessageSquarePlus className="mr-1 h-4 w-4" />
+          New chat
+        </Button>
+      </>
+    );
+  }
+
+  if (!content) return null;
+
+  return (
+    <div className="mx-auto w-full max-w-3xl px-4 pb-2">
+      <div
+        className="flex items-center gap-3 rounded-lg border border-amber-500/50 bg-card px-4 py-3 text-sm text-muted-foreground"
+        role="alert"
+        data-testid="stream-error-notice"
+      >
+        {content}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 shrink-0"
+          onClick={dismiss}
+          aria-label="Dismiss"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RateLimitNotice({ failure, onRetry }: { failure: StreamFailure; onRetry?: () => void }) {
+  const retryAfterMs =
+    (failure.error as RateLimitError).retryAfterMs ?? DEFAULT_RATE_LIMIT_RETRY_MS;
+  const retryAt = failure.failedAt + retryAfterMs;
+  const [now, setNow] = useState(Date.now);
+  const remainingSeconds = Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  useEffect(() => {
+    if (remainingSeconds === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [remainingSeconds]);
+
+  return (
+    <>
+      <Clock className="h-4 w-4 shrink-0 text-amber-500" />
+      <span className="flex-1">
+        You&apos;re sending messages too quickly.
+        {remainingSeconds > 0 && (
+          <span className="tabular-nums" data-testid="rate-limit-countdown">
+            {" "}You can retry in {remainingSeconds}s.
+          </span>
+        )}
+      </span>
+      {onRetry && (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={remainingSeconds > 0}
+          onClick={onRetry}
+          data-testid="error-retry"
+        >
+          Retry
+        </Button>
+      )}
+    </>
+  );
+}
+
+function BudgetNotice({ message }: { message: string }) {
+  return (
+    <>
+      <Wallet className="h-4 w-4 shrink-0 text-amber-500" />
+      <span className="flex-1">{message || "You've reached your usage budget."}</span>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" data-testid="error-view-usage">
+            View usage
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64">
+          <BudgetUsage />
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
+
+function BudgetUsage() {
+  const { data: budget, isLoading } = useBudget();
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading usage…</p>;
+  }
+  if (!budget?.has_budget) {
+    return <p className="text-sm text-muted-foreground">No budget is configured.</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm" data-testid="budget-usage">
+      <dt className="text-muted-foreground">Today</dt>
+      <dd className="text-right tabular-nums">
+        {formatCost(budget.daily_used_usd)} / {formatCost(budget.daily_budget_usd)}
+      </dd>
+      <dt className="text-muted-foreground">This month</dt>
+      <dd className="text-right tabular-nums">
+        {formatCost(budget.monthly_used_usd)} / {formatCost(budget.monthly_budget_usd)}
+      </dd>
+    </dl>
+  );
+}
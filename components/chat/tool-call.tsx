@@ -1,15 +1,27 @@
 "use client";
 
 import { useState } from "react";
-import { ChevronDown, ChevronRight, Wrench, Check, AlertCircle, Loader2 } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Wrench,
+  Check,
+  AlertCircle,
+  Loader2,
+  ShieldQuestion,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { ToolCall } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { ToolApprovalRequest, ToolCall } from "@/lib/types";
 
 interface ToolCallDisplayProps {
   toolCall: ToolCall;
+  // Records the user's decision on a tool call awaiting approval
+  onApprovalDecision?: (request: ToolApprovalRequest, alwaysAllow: boolean) => void;
 }
 
-function formatToolName(tool: string): string {
+export function formatToolName(tool: string): string {
   // Remove "mcp__" or "mcp:" prefixes
   let formatted = tool.replace(/^mcp[_:]+/, "");
   // Replace double underscores with " - " for readability
@@ -19,18 +31,25 @@ function formatToolName(tool: string): string {
   return formatted;
 }
 
-export function ToolCallDisplay({ toolCall }: ToolCallDisplayProps) {
+export function ToolCallDisplay({ toolCall, onApprovalDecision }: ToolCallDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const displayName = formatToolName(toolCall.tool);
+  const isAwaitingApproval = toolCall.status === "awaiting_approval";
 
   const statusIcon = {
     pending: <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />,
+    awaiting_approval: <ShieldQuestion className="h-4 w-4 text-amber-500" />,
     completed: <Check className="h-4 w-4 text-green-500" />,
     error: <AlertCircle className="h-4 w-4 text-destructive" />,
   };
 
   return (
-    <div className="rounded-lg border border-border bg-card">
+    <div
+      className={cn(
+        "rounded-lg border border-border bg-card",
+        isAwaitingApproval && "border-amber-500/50"
+      )}
+    >
       <button
         className="flex w-full items-center gap-2 p-3 text-left text-sm hover:bg-muted/50 transition-colors"
         onClick={() => setIsExpanded(!isExpanded)}
@@ -45,6 +64,14 @@ export function ToolCallDisplay({ toolCall }: ToolCallDisplayProps) {
         <span className="ml-auto">{statusIcon[toolCall.status]}</span>
       </button>
 
+      {isAwaitingApproval && onApprovalDecision && (
+        <ToolApprovalControls
+          tool={displayName}
+          input={toolCall.input}
+          onDecision={onApprovalDecision}
+        />
+      )}
+
       {/* Show error summary even when collapsed */}
       {!isExpanded && toolCall.error && (
         <div className="px-3 pb-3 pt-0">
@@ -91,3 +118,104 @@ export function ToolCallDisplay({ toolCall }: ToolCallDisplayProps) {
     </div>
   );
 }
+
+interface ToolApprovalControlsProps {
+  tool: string;
+  input?: Record<string, unknown>;
+  onDecision: (request: ToolApprovalRequest, alwaysAllow: boolean) => void;
+}
+
+/**
+ * Approve / Deny / Edit controls for a tool call the run is paused on.
+ */
+function ToolApprovalControls({ tool, input, onDecision }: ToolApprovalControlsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [alwaysAllow, setAlwaysAllow] = useState(false);
+
+  const handleEdit = () => {
+    setDraft(JSON.stringify(input ?? {}, null, 2));
+    setDraftError(null);
+    setIsEditing(true);
+  };
+
+  const handleApprove = () => {
+    if (!isEditing) {
+      onDecision({ decision: "approve" }, alwaysAllow);
+      return;
+    }
+
+    let edited: unknown;
+    try {
+      edited = JSON.parse(draft);
+    } catch {
+      setDraftError("Arguments must be valid JSON");
+      return;
+    }
+    if (typeof edited !== "object" || edited === null || Array.isArray(edited)) {
+      setDraftError("Arguments must be a JSON object");
+      return;
+    }
+    onDecision({ decision: "approve", input: edited as Record<string, unknown> }, alwaysAllow);
+  };
+
+  return (
+    <div className="border-t border-border p-3 space-y-3" data-testid="tool-approval">
+      <p className="text-sm">
+        <span className="font-medium">{tool}</span> needs your approval to run.
+      </p>
+
+      {isEditing ? (
+        <div>
+          <Textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setDraftError(null);
+            }}
+            className="font-mono text-xs min-h-32"
+            aria-label="Tool arguments"
+            data-testid="tool-approval-input"
+          />
+          {draftError && <p className="mt-1 text-xs text-destructive">{draftError}</p>}
+        </div>
+      ) : (
+        input && (
+          <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">
+            {JSON.stringify(input, null, 2)}
+          </pre>
+        )
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={alwaysAllow}
+          onChange={(e) => setAlwaysAllow(e.target.checked)}
+          className="h-4 w-4 rounded border-border accent-primary"
+        />
+        Always allow {tool}
+      </label>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleApprove} data-testid="tool-approve">
+          {isEditing ? "Approve with edits" : "Approve"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onDecision({ decision: "deny" }, false)}
+          data-testid="tool-deny"
+        >
+          Deny
+        </Button>
+        {!isEditing && (
+          <Button size="sm" variant="ghost" onClick={handleEdit} data-testid="tool-edit">
+            Edit arguments
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
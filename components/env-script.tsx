@@ -23,6 +23,10 @@ export function EnvScript() {
       "",
     NEXT_PUBLIC_SENTRY_RELEASE:
       process.env.SENTRY_RELEASE || process.env.NEXT_PUBLIC_SENTRY_RELEASE || "",
+    NEXT_PUBLIC_STREAM_STALL_TIMEOUT_MS:
+      process.env.STREAM_STALL_TIMEOUT_MS ||
+      process.env.NEXT_PUBLIC_STREAM_STALL_TIMEOUT_MS ||
+      "",
   };
 
   return (
@@ -0,0 +1,140 @@
+"use client";
+
+import { useRef } from "react";
+import { ArchiveRestore, ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useArchivedSessions, useUpdateSession } from "@/lib/hooks/use-sessions";
+import { useLoadMoreOnScroll } from "@/lib/hooks/use-load-more-on-scroll";
+
+interface ArchivedSessionsProps {
+  activeSessionId: string | null;
+  onSelectSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Sidebar view of archived sessions. They can still be opened, and
+ * unarchiving puts them back in the session list.
+ */
+export function ArchivedSessions({
+  activeSessionId,
+  onSelectSession,
+  onClose,
+}: ArchivedSessionsProps) {
+  const {
+    data,
+    isLoading,
+    isError,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+    fetchNextPage,
+  } = useArchivedSessions();
+  const updateSession = useUpdateSession();
+  const sessions = data?.sessions ?? [];
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useLoadMoreOnScroll(
+    listRef,
+    fetchNextPage,
+    hasNextPage && !isFetchingNextPage && !isFetchNextPageError,
+    sessions.length
+  );
+
+  const handleUnarchive = (sessionId: string) => {
+    updateSession.mutate(
+      { sessionId, archived: false },
+      { onError: () => toast.error("Failed to unarchive chat") }
+    );
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col" data-testid="archived-sessions">
+      <div className="flex items-center gap-1 px-2 pb-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onClose}
+          aria-label="Back to chats"
+          data-testid="archived-sessions-back"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">Archived</span>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto overflow-x-hidden px-2">
+        {isLoading ? (
+          <div className="space-y-2 p-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : isError && !data ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            Couldn&apos;t load archived chats
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">No archived chats</div>
+        ) : (
+          <>
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className={cn(
+                  "mb-1 flex cursor-pointer items-center gap-2 rounded-lg py-2 pl-3 pr-1 text-sm hover:bg-sidebar-accent",
+                  activeSessionId === session.id &&
+                    "bg-sidebar-accent text-sidebar-accent-foreground"
+                )}
+                onClick={() => onSelectSession(session.id)}
+                data-testid={`archived-session-${session.id}`}
+              >
+                <div className="min-w-0 flex-1 truncate">{session.title || "New Chat"}</div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleUnarchive(session.id);
+                  }}
+                  disabled={
+                    updateSession.isPending && updateSession.variables?.sessionId === session.id
+                  }
+                  aria-label={`Unarchive ${session.title || "New Chat"}`}
+                  data-testid={`unarchive-session-${session.id}`}
+                >
+                  <ArchiveRestore className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {isFetchingNextPage && (
+              <div className="flex justify-center py-2">
+                <Loader2
+                  className="h-4 w-4 animate-spin text-muted-foreground"
+                  aria-label="Loading older archived chats"
+                />
+              </div>
+            )}
+            {isFetchNextPageError && !isFetchingNextPage && (
+              <div className="py-2 text-center text-xs text-muted-foreground">
+                Couldn&apos;t load older archived chats.{" "}
+                <button
+                  type="button"
+                  className="underline hover:text-foreground"
+                  onClick={() => fetchNextPage()}
+                  data-testid="archived-sessions-load-more-retry"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Archive, Download, FolderInput, Loader2, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Folder } from "@/lib/types";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Number of sessions currently listed, for "select all"
+  listedCount: number;
+  folders: Folder[];
+  isExporting?: boolean;
+  onSelectAll: () => void;
+  onMove: (folderId: string | null) => void;
+  onExport: () => void;
+  onArchive: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Toolbar shown while selecting sessions in the sidebar, with the actions
+ * that apply to every selected session.
+ */
+export function BulkActionBar({
+  selectedCount,
+  listedCount,
+  folders,
+  isExporting = false,
+  onSelectAll,
+  onMove,
+  onExport,
+  onArchive,
+  onDelete,
+  onClose,
+}: BulkActionBarProps) {
+  const selectAllRef = useRef<HTMLInputElement>(null);
+  const allSelected = listedCount > 0 && selectedCount === listedCount;
+  const noneSelected = selectedCount === 0;
+
+  // Partially selected lists show a dash in the select-all box
+  useEffect(() => {
+    if (selectAllRef.current) {
+      selectAllRef.current.indeterminate = !noneSelected && !allSelected;
+    }
+  }, [noneSelected, allSelected]);
+
+  return (
+    <div
+      className="flex items-center gap-1 border-y border-border px-4 py-1 text-xs"
+      data-testid="bulk-action-bar"
+    >
+      <input
+        ref={selectAllRef}
+        type="checkbox"
+        className="h-4 w-4 accent-primary"
+        checked={allSelected}
+        onChange={onSelectAll}
+        aria-label="Select all chats"
+        data-testid="bulk-select-all"
+      />
+      <span className="flex-1 truncate pl-1 text-muted-foreground" data-testid="bulk-selected-count">
+        {selectedCount} selected
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={noneSelected}
+            aria-label="Move selected chats to folder"
+            data-testid="bulk-move"
+          >
+            <FolderInput className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => onMove(null)}>No folder</DropdownMenuItem>
+          {folders.length > 0 && <DropdownMenuSeparator />}
+          {folders.map((folder) => (
+            <DropdownMenuItem key={folder.id} onClick={() => onMove(folder.id)}>
+              {folder.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={noneSelected || isExporting}
+        onClick={onExport}
+        aria-label="Export selected chats"
+        data-testid="bulk-export"
+      >
+        {isExporting ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Download className="h-4 w-4" />
+        )}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={noneSelected}
+        onClick={onArchive}
+        aria-label="Archive selected chats"
+        data-testid="bulk-archive"
+      >
+        <Archive className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-destructive hover:text-destructive"
+        disabled={noneSelected}
+        onClick={onDelete}
+        aria-label="Delete selected chats"
+        data-testid="bulk-delete"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={onClose}
+        aria-label="Stop selecting"
+        data-testid="bulk-close"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { type ReactNode, useState, useCallback, useEffect, useRef } from "react"
 import { Header } from "./header";
 import { Sidebar } from "./sidebar";
 import { Footer } from "./footer";
-import type { Session } from "@/lib/types";
+import type { Session, TokenUsage } from "@/lib/types";
 
 const MIN_SIDEBAR_WIDTH = 120;
 const MAX_SIDEBAR_WIDTH = 480;
@@ -16,11 +16,19 @@ interface ChatLayoutProps {
   sessions: Session[];
   activeSessionId: string | null;
   isLoadingSessions: boolean;
+  hasMoreSessions?: boolean;
+  isLoadingMoreSessions?: boolean;
+  loadMoreSessionsFailed?: boolean;
+  onLoadMoreSessions?: () => void;
   onNewChat: () => void;
+  onNewExploration: () => void;
   onSelectSession: (sessionId: string) => void;
+  onSelectMessage?: (sessionId: string, messageId: string) => void;
   onDeleteSession: (sessionId: string) => void;
+  onDeleteSessions: (sessionIds: string[]) => void;
   onRenameSession: (sessionId: string, title: string) => Promise<void>;
   isRenaming?: boolean;
+  sessionUsage?: TokenUsage | null;
 }
 
 export function ChatLayout({
@@ -28,11 +36,19 @@ export function ChatLayout({
   sessions,
   activeSessionId,
   isLoadingSessions,
+  hasMoreSessions,
+  isLoadingMoreSessions,
+  loadMoreSessionsFailed,
+  onLoadMoreSessions,
   onNewChat,
+  onNewExploration,
   onSelectSession,
+  onSelectMessage,
   onDeleteSession,
+  onDeleteSessions,
   onRenameSession,
   isRenaming,
+  sessionUsage,
 }: ChatLayoutProps) {
   const [sidebarWidth, setSidebarWidth] = useState(DEFAULT_SIDEBAR_WIDTH);
   const [isResizing, setIsResizing] = useState(false);
@@ -96,15 +112,22 @@ export function ChatLayout({
 
   return (
     <div className="h-screen flex flex-col">
-      <Header />
+      <Header sessionUsage={sessionUsage} />
       <div className="flex-1 flex overflow-hidden">
         <Sidebar
           sessions={sessions}
           activeSessionId={activeSessionId}
           isLoading={isLoadingSessions}
+          hasMore={hasMoreSessions}
+          isLoadingMore={isLoadingMoreSessions}
+          loadMoreFailed={loadMoreSessionsFailed}
+          onLoadMore={onLoadMoreSessions}
           onNewChat={onNewChat}
+          onNewExploration={onNewExploration}
           onSelectSession={onSelectSession}
+          onSelectMessage={onSelectMessage}
           onDeleteSession={onDeleteSession}
+          onDeleteSessions={onDeleteSessions}
           onRenameSession={onRenameSession}
           isRenaming={isRenaming}
           width={sidebarWidth}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import {
+  ChevronRight,
+  Folder as FolderIcon,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Folder, Session } from "@/lib/types";
+
+// Drag data type carrying a session id between sidebar rows and drop targets
+export const SESSION_DRAG_TYPE = "application/x-badlands-session";
+
+/**
+ * Props that make an element accept sessions dragged from the sidebar.
+ * `isOver` highlights the target while a session hovers it.
+ */
+export function useSessionDropTarget(onDropSession: (sessionId: string) => void) {
+  const [isOver, setIsOver] = useState(false);
+
+  const dropProps = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setIsOver(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      // Ignore moves between the target's own children
+      if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+      setIsOver(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+      setIsOver(false);
+      if (!sessionId) return;
+      e.preventDefault();
+      onDropSession(sessionId);
+    },
+  };
+
+  return { isOver, dropProps };
+}
+
+interface FolderSectionProps {
+  folder: Folder;
+  sessions: Session[];
+  renderSession: (session: Session) => ReactNode;
+  onDropSession: (sessionId: string) => void;
+  onRename: (folder: Folder) => void;
+  onDelete: (folder: Folder) => void;
+}
+
+/**
+ * A collapsible folder in the sidebar that sessions can be dragged into.
+ */
+export function FolderSection({
+  folder,
+  sessions,
+  renderSession,
+  onDropSession,
+  onRename,
+  onDelete,
+}: FolderSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { isOver, dropProps } = useSessionDropTarget(onDropSession);
+
+  return (
+    <div
+      className={cn("mb-1 rounded-lg", isOver && "bg-primary/10 ring-1 ring-primary/40")}
+      data-testid={`folder-${folder.id}`}
+      {...dropProps}
+    >
+      <div className="group relative flex items-center rounded-lg text-sm hover:bg-sidebar-accent">
+        <button
+          type="button"
+          className="flex min-w-0 flex-1 items-center gap-2 py-2 pl-2 pr-8 text-left"
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+          aria-expanded={isExpanded}
+        >
+          <ChevronRight
+            className={cn(
+              "h-3 w-3 shrink-0 text-muted-foreground transition-transform",
+              isExpanded && "rotate-90"
+            )}
+          />
+          <FolderIcon className="h-4 w-4 shrink-0" />
+          <span className="truncate">{folder.name}</span>
+          <span className="text-xs text-muted-foreground">{sessions.length}</span>
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className="absolute right-0 top-1/2 flex h-8 w-8 -translate-y-1/2 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground"
+              aria-label={`Folder options for ${folder.name}`}
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => onRename(folder)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-destructive focus:text-destructive"
+              onClick={() => onDelete(folder)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {isExpanded && (
+        <div className="pl-3">
+          {sessions.length === 0 ? (
+            <div className="px-3 py-1 text-xs text-muted-foreground">Drag chats here</div>
+          ) : (
+            sessions.map(renderSession)
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { LogOut, User } from "lucide-react";
+import { LogOut, ShieldOff, User } from "lucide-react";
 import { useAuth } from "@/lib/auth-context";
 import { logout } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
@@ -14,9 +14,20 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
+import { formatCost, formatTokenCount } from "@/lib/usage";
+import { useToolApprovalStore } from "@/store/tool-approval-store";
+import type { TokenUsage } from "@/lib/types";
 
-export function Header() {
+interface HeaderProps {
+  // Running token usage for the open session
+  sessionUsage?: TokenUsage | null;
+}
+
+export function Header({ sessionUsage }: HeaderProps) {
   const { user, isLoading } = useAuth();
+  const alwaysAllowedCount = useToolApprovalStore((state) => state.alwaysAllowedTools.length);
+  const clearAlwaysAllowed = useToolApprovalStore((state) => state.clearAlwaysAllowed);
 
   const handleLogout = async () => {
     await logout();
@@ -44,6 +55,23 @@ export function Header() {
       </div>
 
       <div className="flex items-center gap-4">
+        {sessionUsage && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span
+                className="text-xs text-muted-foreground tabular-nums cursor-default"
+                data-testid="session-usage"
+              >
+                {formatTokenCount(sessionUsage.total_tokens)} tokens · {formatCost(sessionUsage.cost_usd)}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              This conversation: {sessionUsage.input_tokens.toLocaleString()} input,{" "}
+              {sessionUsage.output_tokens.toLocaleString()} output tokens
+            </TooltipContent>
+          </Tooltip>
+        )}
+
         {/* User menu */}
         {isLoading ? (
           <Skeleton className="h-8 w-8 rounded-full" />
@@ -72,6 +100,12 @@ export function Header() {
                 <User className="mr-2 h-4 w-4" />
                 <span>Profile</span>
               </DropdownMenuItem>
+              {alwaysAllowedCount > 0 && (
+                <DropdownMenuItem onClick={clearAlwaysAllowed} data-testid="reset-tool-approvals">
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  <span>Reset always-allowed tools ({alwaysAllowedCount})</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleLogout} data-testid="logout-button">
                 <LogOut className="mr-2 h-4 w-4" />
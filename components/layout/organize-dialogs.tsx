@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TAG_COLORS } from "@/lib/tags";
+import { TagDot } from "./tag-filter";
+import type { TagColor } from "@/lib/types";
+
+const MAX_NAME_LENGTH = 64;
+
+function validateName(name: string): string | null {
+  if (!name) return "Name cannot be empty";
+  if (name.length > MAX_NAME_LENGTH) return `Name cannot exceed ${MAX_NAME_LENGTH} characters`;
+  return null;
+}
+
+interface FolderNameDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  initialName?: string;
+  isSaving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Rejects to keep the dialog open with an error
+  onSave: (name: string) => Promise<void>;
+}
+
+/**
+ * Asks for a folder name, for creating or renaming a folder. Mount it with
+ * a `key` per folder so the field starts from that folder's name.
+ */
+export function FolderNameDialog({
+  open,
+  title,
+  description,
+  initialName = "",
+  isSaving = false,
+  onOpenChange,
+  onSave,
+}: FolderNameDialogProps) {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    const trimmedName = name.trim();
+    const validationError = validateName(trimmedName);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    try {
+      await onSave(trimmedName);
+    } catch {
+      setError("Failed to save folder");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="py-4">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSubmit();
+              }
+            }}
+            placeholder="Folder name"
+            maxLength={MAX_NAME_LENGTH}
+            disabled={isSaving}
+            aria-label="Folder name"
+            aria-invalid={!!error}
+            aria-describedby={error ? "folder-name-error" : undefined}
+            data-testid="folder-name-input"
+          />
+          {error && (
+            <p id="folder-name-error" className="text-xs text-destructive mt-2">
+              {error}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || !name.trim()}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TagDialogProps {
+  open: boolean;
+  isSaving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Rejects to keep the dialog open with an error
+  onSave: (tag: { name: string; color: TagColor }) => Promise<void>;
+}
+
+/**
+ * Creates a tag: a name and one of the tag colors.
+ */
+export function TagDialog({ open, isSaving = false, onOpenChange, onSave }: TagDialogProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<TagColor>("blue");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    const trimmedName = name.trim();
+    const validationError = validateName(trimmedName);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    try {
+      await onSave({ name: trimmedName, color });
+    } catch {
+      setError("Failed to create tag");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Tag</DialogTitle>
+          <DialogDescription>Tags group related conversations across folders.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-4">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSubmit();
+              }
+            }}
+            placeholder="Tag name"
+            maxLength={MAX_NAME_LENGTH}
+            disabled={isSaving}
+            aria-label="Tag name"
+            aria-invalid={!!error}
+            aria-describedby={error ? "tag-name-error" : undefined}
+            data-testid="tag-name-input"
+          />
+          <div className="flex gap-2" role="radiogroup" aria-label="Tag color">
+            {TAG_COLORS.map((tagColor) => (
+              <button
+                key={tagColor}
+                type="button"
+                role="radio"
+                aria-checked={color === tagColor}
+                aria-label={tagColor}
+                className={cn(
+                  "flex h-6 w-6 items-center justify-center rounded-full border",
+                  color === tagColor ? "border-foreground" : "border-transparent"
+                )}
+                onClick={() => setColor(tagColor)}
+              >
+                <TagDot color={tagColor} className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+          {error && (
+            <p id="tag-name-error" className="text-xs text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || !name.trim()}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving
+              </>
+            ) : (
+              "Create"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { ArrowLeft, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDeletedSessions, useRestoreSessions } from "@/lib/hooks/use-sessions";
+import {
+  DELETED_SESSION_RETENTION_DAYS,
+  getDaysUntilPurge,
+  isPastRetention,
+} from "@/lib/deleted-sessions";
+
+interface RecentlyDeletedProps {
+  onClose: () => void;
+}
+
+/**
+ * Sidebar view of deleted sessions, which can be restored until the
+ * retention window passes.
+ */
+export function RecentlyDeleted({ onClose }: RecentlyDeletedProps) {
+  const { data, isLoading, isError } = useDeletedSessions();
+  const restoreSessions = useRestoreSessions();
+  // Sessions past the retention window can't be restored, even before the
+  // backend gets to purging them
+  const sessions = (data?.sessions ?? []).filter(
+    (session) => !session.deleted_at || !isPastRetention(session.deleted_at)
+  );
+
+  const handleRestore = (sessionId: string) => {
+    restoreSessions.mutate([sessionId], {
+      onSuccess: () => toast.success("Chat restored"),
+      onError: () => toast.error("Failed to restore chat"),
+    });
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col" data-testid="recently-deleted">
+      <div className="flex items-center gap-1 px-2 pb-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onClose}
+          aria-label="Back to chats"
+          data-testid="recently-deleted-back"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">Recently deleted</span>
+      </div>
+      <p className="px-4 pb-2 text-xs text-muted-foreground">
+        Chats are permanently deleted {DELETED_SESSION_RETENTION_DAYS} days after you delete
+        them.
+      </p>
+      <div className="flex-1 overflow-y-auto overflow-x-hidden px-2">
+        {isLoading ? (
+          <div className="space-y-2 p-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : isError ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            Couldn&apos;t load deleted chats
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            No recently deleted chats
+          </div>
+        ) : (
+          sessions.map((session) => {
+            const daysLeft = session.deleted_at ? getDaysUntilPurge(session.deleted_at) : null;
+            return (
+              <div
+                key={session.id}
+                className="mb-1 flex items-center gap-2 rounded-lg py-2 pl-3 pr-1 text-sm hover:bg-sidebar-accent"
+                data-testid={`deleted-session-${session.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{session.title || "New Chat"}</div>
+                  {daysLeft !== null && (
+                    <div className="text-xs text-muted-foreground">
+                      {daysLeft === 1 ? "1 day left" : `${daysLeft} days left`}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => handleRestore(session.id)}
+                  aria-label={`Restore ${session.title || "New Chat"}`}
+                  data-testid={`restore-session-${session.id}`}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { highlightTerms, MIN_CONTENT_SEARCH_LENGTH } from "@/lib/search";
+import { useSessionSearch } from "@/lib/hooks/use-sessions";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+/**
+ * Renders text with the query's terms marked.
+ */
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  return (
+    <>
+      {highlightTerms(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/40">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface SessionSearchResultsProps {
+  query: string;
+  onSelectMessage: (sessionId: string, messageId: string) => void;
+}
+
+/**
+ * Messages whose content matches the sidebar search, with highlighted
+ * snippets.
+ */
+export function SessionSearchResults({ query, onSelectMessage }: SessionSearchResultsProps) {
+  const { data, isFetching, isError } = useSessionSearch(query);
+  const results = data?.results ?? [];
+
+  if (query.trim().length < MIN_CONTENT_SEARCH_LENGTH) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2" data-testid="session-search-messages">
+      <div className="flex items-center gap-2 px-3 py-1 text-xs font-medium text-muted-foreground">
+        Messages
+        {isFetching && (
+          <Loader2 className="h-3 w-3 animate-spin" aria-label="Searching messages" />
+        )}
+      </div>
+      {isError ? (
+        <div className="px-3 py-2 text-xs text-muted-foreground">Message search failed</div>
+      ) : results.length === 0 && !isFetching ? (
+        <div className="px-3 py-2 text-xs text-muted-foreground">No matching messages</div>
+      ) : (
+        results.map((result) => (
+          <button
+            key={`${result.session_id}-${result.message_id}`}
+            type="button"
+            className="mb-1 w-full rounded-lg px-3 py-2 text-left text-sm transition-colors hover:bg-sidebar-accent"
+            onClick={() => onSelectMessage(result.session_id, result.message_id)}
+            data-testid="session-search-result"
+          >
+            <div className="truncate">{result.session_title || "New Chat"}</div>
+            <div className="line-clamp-2 text-xs text-muted-foreground">
+              <HighlightedText text={result.snippet} query={query} />
+            </div>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
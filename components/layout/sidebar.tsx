@@ -1,14 +1,38 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Plus, MessageSquare, Trash2, MoreHorizontal, Pencil, Loader2 } from "lucide-react";
+import {
+  Plus,
+  MessageSquare,
+  Trash2,
+  MoreHorizontal,
+  Pencil,
+  Loader2,
+  Search,
+  X,
+  Pin,
+  PinOff,
+  FolderPlus,
+  FolderInput,
+  Tags,
+  Check,
+  ListChecks,
+  Archive,
+  Telescope,
+} from "lucide-react";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
   DropdownMenuContent,
+  DropdownMenuCheckboxItem,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -20,30 +44,76 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Session } from "@/lib/types";
+import { useShallow } from "zustand/react/shallow";
+import { useChatStore } from "@/store/chat-store";
+import { useLoadMoreOnScroll } from "@/lib/hooks/use-load-more-on-scroll";
+import {
+  useBulkSessionAction,
+  useExportSessions,
+  useUpdateSession,
+} from "@/lib/hooks/use-sessions";
+import {
+  useFolders,
+  useTags,
+  useCreateFolder,
+  useRenameFolder,
+  useDeleteFolder,
+  useCreateTag,
+} from "@/lib/hooks/use-folders";
+import { matchesTitle } from "@/lib/search";
+import { groupSessions, groupSessionsByFolder } from "@/lib/session-groups";
+import { filterSessionsByTags } from "@/lib/tags";
+import { DELETED_SESSION_RETENTION_DAYS } from "@/lib/deleted-sessions";
+import { HighlightedText, SessionSearchResults } from "./session-search-results";
+import { FolderSection, SESSION_DRAG_TYPE, useSessionDropTarget } from "./folder-section";
+import { FolderNameDialog, TagDialog } from "./organize-dialogs";
+import { TagDot, TagFilter } from "./tag-filter";
+import { BulkActionBar } from "./bulk-action-bar";
+import { RecentlyDeleted } from "./recently-deleted";
+import { ArchivedSessions } from "./archived-sessions";
+import type { Folder, Session, Tag, UpdateSessionRequest } from "@/lib/types";
 
 interface SidebarProps {
   sessions: Session[];
   activeSessionId: string | null;
   isLoading: boolean;
   onNewChat: () => void;
+  onNewExploration: () => void;
   onSelectSession: (sessionId: string) => void;
   onDeleteSession: (sessionId: string) => void;
+  onDeleteSessions: (sessionIds: string[]) => void;
   onRenameSession: (sessionId: string, title: string) => Promise<void>;
   isRenaming?: boolean;
   width?: number;
+  // Older sessions are loaded as the list scrolls
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  loadMoreFailed?: boolean;
+  onLoadMore?: () => void;
+  // Opens a session at a message found by search
+  onSelectMessage?: (sessionId: string, messageId: string) => void;
 }
 
+// Pause in typing before message content is searched
+const SEARCH_DEBOUNCE_MS = 300;
+
 export function Sidebar({
   sessions,
   activeSessionId,
   isLoading,
   onNewChat,
+  onNewExploration,
   onSelectSession,
   onDeleteSession,
+  onDeleteSessions,
   onRenameSession,
   isRenaming = false,
   width,
+  hasMore = false,
+  isLoadingMore = false,
+  loadMoreFailed = false,
+  onLoadMore,
+  onSelectMessage,
 }: SidebarProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
@@ -51,6 +121,181 @@ export function Sidebar({
   const [renameValue, setRenameValue] = useState("");
   const [renameError, setRenameError] = useState<string | null>(null);
   const renameInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  // Folder being created (null) or renamed; undefined while the dialog is closed
+  const [folderToName, setFolderToName] = useState<Folder | null | undefined>(undefined);
+  const [folderToDelete, setFolderToDelete] = useState<Folder | null>(null);
+  // Session the new tag is applied to once created
+  const [tagDialogSessionId, setTagDialogSessionId] = useState<string | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Last session clicked without shift, where shift-click ranges start
+  const selectionAnchorRef = useRef<string | null>(null);
+  // Bulk action waiting for confirmation
+  const [pendingBulkAction, setPendingBulkAction] = useState<"delete" | "archive" | null>(null);
+  // The session list, or one of the views of sessions it leaves out
+  const [view, setView] = useState<"sessions" | "archived" | "deleted">("sessions");
+  const { data: foldersData } = useFolders();
+  const { data: tagsData } = useTags();
+  const folders = foldersData?.folders ?? [];
+  const tags = tagsData?.tags ?? [];
+  const isSearching = searchQuery.trim().length > 0;
+  const isFiltering = isSearching || selectedTagIds.length > 0;
+  // Titles and tags are filtered instantly over the loaded sessions
+  const visibleSessions = filterSessionsByTags(
+    isSearching ? sessions.filter((session) => matchesTitle(session, searchQuery)) : sessions,
+    // Ignore selected tags that were deleted
+    selectedTagIds.filter((id) => tags.some((tag) => tag.id === id))
+  );
+  const folderLayout = groupSessionsByFolder(visibleSessions, folders);
+  // While filtering, only folders with matches
+  const shownFolders = folderLayout.folders.filter(
+    (group) => !isFiltering || group.sessions.length > 0
+  );
+  const dateGroups = groupSessions(folderLayout.unfiled);
+  // Sessions in display order, which shift-click ranges follow
+  const listedSessions = isSearching
+    ? visibleSessions
+    : [
+        ...shownFolders.flatMap((group) => group.sessions),
+        ...dateGroups.flatMap((group) => group.sessions),
+      ];
+  // Bulk actions only apply to selected sessions still on screen
+  const selectedSessionIds = listedSessions
+    .filter((session) => selectedIds.includes(session.id))
+    .map((session) => session.id);
+  const exportSessions = useExportSessions();
+  const updateSession = useUpdateSession();
+  const bulkSessionAction = useBulkSessionAction();
+  const createFolder = useCreateFolder();
+  const renameFolder = useRenameFolder();
+  const deleteFolder = useDeleteFolder();
+  const createTag = useCreateTag();
+  // Sessions still generating a response (possibly in the background)
+  const streamingSessionIds = useChatStore(
+    useShallow((state) =>
+      Object.keys(state.streams).filter((id) => state.streams[id].isStreaming)
+    )
+  );
+
+  const organizeSession = (sessionId: string, changes: UpdateSessionRequest, failure: string) => {
+    updateSession.mutate({ sessionId, ...changes }, { onError: () => toast.error(failure) });
+  };
+
+  const moveToFolder = (sessionId: string, folderId: string | null) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session || (session.folder_id ?? null) === folderId) return;
+    organizeSession(sessionId, { folder_id: folderId }, "Failed to move chat");
+  };
+
+  const toggleTag = (session: Session, tagId: string) => {
+    const tagIds = session.tag_ids ?? [];
+    organizeSession(
+      session.id,
+      {
+        tag_ids: tagIds.includes(tagId)
+          ? tagIds.filter((id) => id !== tagId)
+          : [...tagIds, tagId],
+      },
+      "Failed to update tags"
+    );
+  };
+
+  // Dropping a session outside every folder takes it out of its folder
+  const { isOver: isOverUnfiled, dropProps: unfiledDropProps } = useSessionDropTarget(
+    (sessionId) => moveToFolder(sessionId, null)
+  );
+
+  const handleSaveFolder = async (name: string) => {
+    if (folderToName) {
+      await renameFolder.mutateAsync({ folderId: folderToName.id, name });
+    } else {
+      await createFolder.mutateAsync(name);
+    }
+    setFolderToName(undefined);
+  };
+
+  const handleConfirmDeleteFolder = () => {
+    if (!folderToDelete) return;
+    deleteFolder.mutate(folderToDelete.id, {
+      onError: () => toast.error("Failed to delete folder"),
+    });
+    setFolderToDelete(null);
+  };
+
+  const handleCreateTag = async (tag: { name: string; color: Tag["color"] }) => {
+    const created = await createTag.mutateAsync(tag);
+    const session = sessions.find((s) => s.id === tagDialogSessionId);
+    if (session) {
+      toggleTag(session, created.id);
+    }
+    setTagDialogSessionId(null);
+  };
+
+  const toggleSelected = (sessionId: string, extendRange: boolean) => {
+    const anchorIndex = listedSessions.findIndex((s) => s.id === selectionAnchorRef.current);
+    const index = listedSessions.findIndex((s) => s.id === sessionId);
+    if (extendRange && anchorIndex !== -1 && index !== -1) {
+      const range = listedSessions
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map((s) => s.id);
+      setSelectedIds((ids) => [...ids.filter((id) => !range.includes(id)), ...range]);
+      return;
+    }
+    selectionAnchorRef.current = sessionId;
+    setSelectedIds((ids) =>
+      ids.includes(sessionId) ? ids.filter((id) => id !== sessionId) : [...ids, sessionId]
+    );
+  };
+
+  const handleSelectAll = () => {
+    setSelectedIds(
+      selectedSessionIds.length === listedSessions.length
+        ? []
+        : listedSessions.map((session) => session.id)
+    );
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  };
+
+  // Opening a view again goes back to the session list
+  const showView = (nextView: "archived" | "deleted") => {
+    exitSelection();
+    setView((current) => (current === nextView ? "sessions" : nextView));
+  };
+
+  const handleBulkMove = (folderId: string | null) => {
+    bulkSessionAction.mutate(
+      { action: "move", session_ids: selectedSessionIds, folder_id: folderId },
+      { onError: () => toast.error("Failed to move chats") }
+    );
+  };
+
+  const handleBulkExport = () => {
+    exportSessions.mutate(selectedSessionIds, {
+      onError: () => toast.error("Failed to export chats"),
+    });
+  };
+
+  const handleConfirmBulkAction = () => {
+    if (pendingBulkAction === "delete") {
+      onDeleteSessions(selectedSessionIds);
+    } else if (pendingBulkAction === "archive") {
+      bulkSessionAction.mutate(
+        { action: "archive", session_ids: selectedSessionIds },
+        { onError: () => toast.error("Failed to archive chats") }
+      );
+    }
+    setPendingBulkAction(null);
+    exitSelection();
+  };
 
   const handleDeleteClick = (sessionId: string) => {
     setSessionToDelete(sessionId);
@@ -118,6 +363,41 @@ export function Sidebar({
     }
   }, [renameSessionId]);
 
+  // Page through sessions as the list scrolls; searching (a short list)
+  // doesn't page through every session
+  useLoadMoreOnScroll(
+    listRef,
+    onLoadMore,
+    hasMore && !isLoadingMore && !loadMoreFailed && !isSearching,
+    sessions.length
+  );
+
+  // Escape leaves selection mode, unless a dialog, menu or field used it
+  useEffect(() => {
+    if (!isSelecting) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !e.defaultPrevented) {
+        setIsSelecting(false);
+        setSelectedIds([]);
+        selectionAnchorRef.current = null;
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isSelecting]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setSearchQuery("");
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -153,100 +433,443 @@ export function Sidebar({
     });
   };
 
+  const renderSessionItem = (session: Session) => {
+    const isSelected = isSelecting && selectedIds.includes(session.id);
+    return (
+      <div
+        key={session.id}
+        className={cn(
+          "group relative rounded-lg text-sm transition-colors hover:bg-sidebar-accent cursor-pointer mb-1",
+          activeSessionId === session.id &&
+            !isSelecting &&
+            "bg-sidebar-accent text-sidebar-accent-foreground",
+          isSelecting && "select-none",
+          isSelected && "bg-primary/10"
+        )}
+        onClick={(e) =>
+          isSelecting ? toggleSelected(session.id, e.shiftKey) : onSelectSession(session.id)
+        }
+        draggable={!isSelecting}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        aria-selected={isSelecting ? isSelected : undefined}
+        data-testid={`session-item-${session.id}`}
+      >
+        {/* Content area */}
+        <div
+          className={cn(
+            "flex items-center gap-2 py-2 pl-3 overflow-hidden",
+            isSelecting ? "pr-3" : "pr-8"
+          )}
+        >
+          {isSelecting ? (
+            // The row handles clicks, so shift-click works anywhere on it
+            <input
+              type="checkbox"
+              className="pointer-events-none h-4 w-4 flex-shrink-0 accent-primary"
+              checked={isSelected}
+              readOnly
+              tabIndex={-1}
+              aria-label={`Select ${session.title || "New Chat"}`}
+              data-testid={`session-select-${session.id}`}
+            />
+          ) : streamingSessionIds.includes(session.id) ? (
+            <Loader2
+              className="h-4 w-4 flex-shrink-0 animate-spin text-muted-foreground"
+              aria-label="Generating response"
+              data-testid={`session-streaming-${session.id}`}
+            />
+          ) : session.mode === "explorer" ? (
+            <Telescope
+              className="h-4 w-4 flex-shrink-0"
+              aria-label="Exploration"
+              data-testid={`session-explorer-${session.id}`}
+            />
+          ) : (
+            <MessageSquare className="h-4 w-4 flex-shrink-0" />
+          )}
+          <div className="overflow-hidden min-w-0">
+            <div className="truncate text-sm">
+              {isSearching ? (
+                <HighlightedText text={session.title || "New Chat"} query={searchQuery} />
+              ) : (
+                session.title || "New Chat"
+              )}
+            </div>
+            <div
+              className="flex items-center gap-1 text-xs text-muted-foreground truncate"
+              title={formatFullDateTime(session.created_at)}
+            >
+              {tags
+                .filter((tag) => session.tag_ids?.includes(tag.id))
+                .map((tag) => (
+                  <TagDot key={tag.id} color={tag.color} />
+                ))}
+              {formatDate(session.created_at)}
+            </div>
+          </div>
+        </div>
+        {/* Menu button - overlaps content, always at right edge */}
+        {!isSelecting && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className={cn(
+                  "absolute right-0 top-1/2 -translate-y-1/2 flex h-8 w-8 items-center justify-center rounded-md text-muted-foreground hover:text-foreground",
+                  "bg-sidebar hover:bg-accent",
+                  "group-hover:bg-sidebar-accent group-hover:hover:bg-accent",
+                  activeSessionId === session.id && "bg-sidebar-accent"
+                )}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRenameClick(session);
+                }}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  organizeSession(
+                    session.id,
+                    { pinned: !session.pinned },
+                    session.pinned ? "Failed to unpin chat" : "Failed to pin chat"
+                  );
+                }}
+                data-testid={`session-pin-${session.id}`}
+              >
+                {session.pinned ? (
+                  <>
+                    <PinOff className="mr-2 h-4 w-4" />
+                    Unpin
+                  </>
+                ) : (
+                  <>
+                    <Pin className="mr-2 h-4 w-4" />
+                    Pin
+                  </>
+                )}
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                  <FolderInput className="mr-2 h-4 w-4" />
+                  Move to folder
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      moveToFolder(session.id, null);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", session.folder_id && "invisible")} />
+                    No folder
+                  </DropdownMenuItem>
+                  {folders.map((folder) => (
+                    <DropdownMenuItem
+                      key={folder.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveToFolder(session.id, folder.id);
+                      }}
+                    >
+                      <Check
+                        className={cn("mr-2 h-4 w-4", session.folder_id !== folder.id && "invisible")}
+                      />
+                      {folder.name}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setFolderToName(null);
+                    }}
+                  >
+                    <FolderPlus className="mr-2 h-4 w-4" />
+                    New folder…
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                  <Tags className="mr-2 h-4 w-4" />
+                  Tags
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {tags.map((tag) => (
+                    <DropdownMenuCheckboxItem
+                      key={tag.id}
+                      checked={session.tag_ids?.includes(tag.id) ?? false}
+                      onClick={(e) => e.stopPropagation()}
+                      onCheckedChange={() => toggleTag(session, tag.id)}
+                    >
+                      <TagDot color={tag.color} className="mr-2" />
+                      {tag.name}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                  {tags.length > 0 && <DropdownMenuSeparator />}
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setTagDialogSessionId(session.id);
+                    }}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    New tag…
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  organizeSession(session.id, { archived: true }, "Failed to archive chat");
+                }}
+                data-testid={`session-archive-${session.id}`}
+              >
+                <Archive className="mr-2 h-4 w-4" />
+                Archive
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteClick(session.id);
+                }}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  const renderFoldersAndGroups = () => (
+    <>
+      {shownFolders.map(({ folder, sessions: folderSessions }) => (
+        <FolderSection
+          key={folder.id}
+          folder={folder}
+          sessions={folderSessions}
+          renderSession={renderSessionItem}
+          onDropSession={(sessionId) => moveToFolder(sessionId, folder.id)}
+          onRename={setFolderToName}
+          onDelete={setFolderToDelete}
+        />
+      ))}
+      <div
+        className={cn(
+          "min-h-8 rounded-lg",
+          isOverUnfiled && "bg-primary/10 ring-1 ring-primary/40"
+        )}
+        data-testid="unfiled-sessions"
+        {...unfiledDropProps}
+      >
+        {dateGroups.map((group) => (
+          <div key={group.id} className="mb-2" data-testid={`session-group-${group.id}`}>
+            <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+              {group.label}
+            </div>
+            {group.sessions.map(renderSessionItem)}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+
   return (
     <>
       <div
         className="border-r border-border flex flex-col h-full bg-sidebar flex-shrink-0 overflow-hidden"
         style={{ width: width ? `${width}px` : "256px" }}
       >
-        <div className="p-4">
-          <Button onClick={onNewChat} className="w-full gap-2" data-testid="new-chat-button">
+        <div className="flex gap-2 p-4">
+          <Button onClick={onNewChat} className="flex-1 gap-2" data-testid="new-chat-button">
             <Plus className="h-4 w-4" />
             New Chat
           </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="shrink-0"
+            onClick={onNewExploration}
+            aria-label="New exploration"
+            title="New exploration"
+            data-testid="new-exploration-button"
+          >
+            <Telescope className="h-4 w-4" />
+          </Button>
         </div>
 
-        <div className="flex-1 overflow-y-auto overflow-x-hidden min-w-0">
-          {isLoading ? (
-            <div className="space-y-2 p-2">
-              {Array.from({ length: 5 }).map((_, i) => (
-                <Skeleton key={i} className="h-12 w-full" />
-              ))}
-            </div>
-          ) : sessions.length === 0 ? (
-            <div className="p-4 text-center text-sm text-muted-foreground">
-              No conversations yet
+        {view === "deleted" ? (
+          <RecentlyDeleted onClose={() => setView("sessions")} />
+        ) : view === "archived" ? (
+          <ArchivedSessions
+            activeSessionId={activeSessionId}
+            onSelectSession={onSelectSession}
+            onClose={() => setView("sessions")}
+          />
+        ) : (
+          <>
+            <div className="flex items-center gap-1 px-4 pb-2">
+              <div className="relative flex-1">
+                <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
+                  placeholder="Search chats"
+                  aria-label="Search chats"
+                  className="h-8 pl-8 pr-8"
+                  data-testid="session-search-input"
+                />
+                {isSearching && (
+                  <button
+                    type="button"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    onClick={() => setSearchQuery("")}
+                    aria-label="Clear search"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setFolderToName(null)}
+                aria-label="New folder"
+                data-testid="new-folder-button"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={isSelecting ? "secondary" : "ghost"}
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+                aria-label={isSelecting ? "Stop selecting" : "Select chats"}
+                aria-pressed={isSelecting}
+                data-testid="select-sessions-button"
+              >
+                <ListChecks className="h-4 w-4" />
+              </Button>
             </div>
-          ) : (
-            <div className="py-2 px-2">
-              {sessions.map((session) => (
-                <div
-                  key={session.id}
-                  className={cn(
-                    "group relative rounded-lg text-sm transition-colors hover:bg-sidebar-accent cursor-pointer mb-1",
-                    activeSessionId === session.id &&
-                      "bg-sidebar-accent text-sidebar-accent-foreground"
+
+            <TagFilter
+              tags={tags}
+              selectedTagIds={selectedTagIds}
+              onToggle={(tagId) =>
+                setSelectedTagIds((ids) =>
+                  ids.includes(tagId) ? ids.filter((id) => id !== tagId) : [...ids, tagId]
+                )
+              }
+              onClear={() => setSelectedTagIds([])}
+            />
+
+            {isSelecting && (
+              <BulkActionBar
+                selectedCount={selectedSessionIds.length}
+                listedCount={listedSessions.length}
+                folders={folders}
+                isExporting={exportSessions.isPending}
+                onSelectAll={handleSelectAll}
+                onMove={handleBulkMove}
+                onExport={handleBulkExport}
+                onArchive={() => setPendingBulkAction("archive")}
+                onDelete={() => setPendingBulkAction("delete")}
+                onClose={exitSelection}
+              />
+            )}
+
+            <div ref={listRef} className="flex-1 overflow-y-auto overflow-x-hidden min-w-0">
+              {isLoading ? (
+                <div className="space-y-2 p-2">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : sessions.length === 0 && folders.length === 0 && !isFiltering ? (
+                <div className="p-4 text-center text-sm text-muted-foreground">
+                  No conversations yet
+                </div>
+              ) : (
+                <div className="py-2 px-2">
+                  {isFiltering && visibleSessions.length === 0 && (
+                    <div className="px-3 py-2 text-xs text-muted-foreground">
+                      {isSearching ? "No matching titles" : "No chats with these tags"}
+                    </div>
                   )}
-                  onClick={() => onSelectSession(session.id)}
-                  data-testid={`session-item-${session.id}`}
-                >
-                  {/* Content area */}
-                  <div className="flex items-center gap-2 py-2 pl-3 pr-8 overflow-hidden">
-                    <MessageSquare className="h-4 w-4 flex-shrink-0" />
-                    <div className="overflow-hidden min-w-0">
-                      <div className="truncate text-sm">
-                        {session.title || "New Chat"}
-                      </div>
-                      <div
-                        className="text-xs text-muted-foreground truncate"
-                        title={formatFullDateTime(session.created_at)}
-                      >
-                        {formatDate(session.created_at)}
-                      </div>
+                  {isSearching ? visibleSessions.map(renderSessionItem) : renderFoldersAndGroups()}
+                  {isSearching && onSelectMessage && (
+                    <SessionSearchResults
+                      query={debouncedSearchQuery}
+                      onSelectMessage={onSelectMessage}
+                    />
+                  )}
+                  {isLoadingMore && !isSearching && (
+                    <div className="flex justify-center py-2" data-testid="sessions-loading-more">
+                      <Loader2
+                        className="h-4 w-4 animate-spin text-muted-foreground"
+                        aria-label="Loading older conversations"
+                      />
                     </div>
-                  </div>
-                  {/* Menu button - overlaps content, always at right edge */}
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
+                  )}
+                  {loadMoreFailed && !isLoadingMore && !isSearching && (
+                    <div className="py-2 text-center text-xs text-muted-foreground">
+                      Couldn&apos;t load older conversations.{" "}
                       <button
                         type="button"
-                        className={cn(
-                          "absolute right-0 top-1/2 -translate-y-1/2 flex h-8 w-8 items-center justify-center rounded-md text-muted-foreground hover:text-foreground",
-                          "bg-sidebar hover:bg-accent",
-                          "group-hover:bg-sidebar-accent group-hover:hover:bg-accent",
-                          activeSessionId === session.id && "bg-sidebar-accent"
-                        )}
-                        onClick={(e) => e.stopPropagation()}
+                        className="underline hover:text-foreground"
+                        onClick={onLoadMore}
+                        data-testid="sessions-load-more-retry"
                       >
-                        <MoreHorizontal className="h-4 w-4" />
+                        Retry
                       </button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleRenameClick(session);
-                        }}
-                      >
-                        <Pencil className="mr-2 h-4 w-4" />
-                        Rename
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        className="text-destructive focus:text-destructive"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteClick(session.id);
-                        }}
-                      >
-                        <Trash2 className="mr-2 h-4 w-4" />
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
+                    </div>
+                  )}
                 </div>
-              ))}
+              )}
             </div>
-          )}
+          </>
+        )}
+
+        <div className="border-t border-border p-2">
+          <Button
+            variant={view === "archived" ? "secondary" : "ghost"}
+            className="w-full justify-start gap-2"
+            onClick={() => showView("archived")}
+            aria-pressed={view === "archived"}
+            data-testid="archived-sessions-button"
+          >
+            <Archive className="h-4 w-4" />
+            Archived
+          </Button>
+          <Button
+            variant={view === "deleted" ? "secondary" : "ghost"}
+            className="w-full justify-start gap-2"
+            onClick={() => showView("deleted")}
+            aria-pressed={view === "deleted"}
+            data-testid="recently-deleted-button"
+          >
+            <Trash2 className="h-4 w-4" />
+            Recently deleted
+          </Button>
         </div>
       </div>
 
@@ -255,8 +878,8 @@ export function Sidebar({
           <DialogHeader>
             <DialogTitle>Delete Conversation</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this conversation? This action
-              cannot be undone.
+              You can restore it from Recently deleted for{" "}
+              {DELETED_SESSION_RETENTION_DAYS} days.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -273,6 +896,40 @@ export function Sidebar({
         </DialogContent>
       </Dialog>
 
+      <Dialog
+        open={pendingBulkAction !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingBulkAction(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingBulkAction === "archive" ? "Archive" : "Delete"}{" "}
+              {selectedSessionIds.length}{" "}
+              {selectedSessionIds.length === 1 ? "conversation" : "conversations"}?
+            </DialogTitle>
+            <DialogDescription>
+              {pendingBulkAction === "archive"
+                ? "They move out of your chats to Archived, where you can open or unarchive them."
+                : `You can restore them from Recently deleted for ${DELETED_SESSION_RETENTION_DAYS} days.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingBulkAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingBulkAction === "delete" ? "destructive" : "default"}
+              onClick={handleConfirmBulkAction}
+              data-testid="bulk-confirm"
+            >
+              {pendingBulkAction === "archive" ? "Archive" : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog
         open={renameSessionId !== null}
         onOpenChange={(open) => {
@@ -335,6 +992,61 @@ export function Sidebar({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {folderToName !== undefined && (
+        <FolderNameDialog
+          key={folderToName?.id ?? "new"}
+          open
+          title={folderToName ? "Rename Folder" : "New Folder"}
+          description={
+            folderToName
+              ? "Enter a new name for this folder."
+              : "Folders keep related conversations together."
+          }
+          initialName={folderToName?.name}
+          isSaving={createFolder.isPending || renameFolder.isPending}
+          onOpenChange={(open) => {
+            if (!open) setFolderToName(undefined);
+          }}
+          onSave={handleSaveFolder}
+        />
+      )}
+
+      <Dialog
+        open={folderToDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setFolderToDelete(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Folder</DialogTitle>
+            <DialogDescription>
+              Delete the folder &quot;{folderToDelete?.name}&quot;? Its conversations are
+              kept and moved out of the folder.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFolderToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDeleteFolder}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {tagDialogSessionId !== null && (
+        <TagDialog
+          open
+          isSaving={createTag.isPending}
+          onOpenChange={(open) => {
+            if (!open) setTagDialogSessionId(null);
+          }}
+          onSave={handleCreateTag}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,68 @@
+"use client";
+
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import type { Tag, TagColor } from "@/lib/types";
+
+export function TagDot({ color, className }: { color: TagColor; className?: string }) {
+  return (
+    <span
+      className={cn("inline-block h-2 w-2 shrink-0 rounded-full", TAG_COLOR_CLASSES[color].dot, className)}
+      aria-hidden="true"
+    />
+  );
+}
+
+interface TagFilterProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onToggle: (tagId: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Tag chips that narrow the session list to sessions carrying every
+ * selected tag.
+ */
+export function TagFilter({ tags, selectedTagIds, onToggle, onClear }: TagFilterProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-4 pb-2" data-testid="tag-filter">
+      {tags.map((tag) => {
+        const selected = selectedTagIds.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            className={cn(
+              "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors",
+              selected
+                ? TAG_COLOR_CLASSES[tag.color].chip
+                : "border-border text-muted-foreground hover:text-foreground"
+            )}
+            onClick={() => onToggle(tag.id)}
+            aria-pressed={selected}
+            data-testid={`tag-filter-${tag.id}`}
+          >
+            <TagDot color={tag.color} />
+            {tag.name}
+          </button>
+        );
+      })}
+      {selectedTagIds.length > 0 && (
+        <button
+          type="button"
+          className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+          onClick={onClear}
+          aria-label="Clear tag filter"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
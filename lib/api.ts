@@ -1,51 +1,47 @@
 import type {
   AuthMeResponse,
   SessionsResponse,
+  SessionSearchResponse,
   SessionWithMessages,
   Session,
   BudgetResponse,
   CreateSessionRequest,
-  APIError,
+  UpdateSessionRequest,
+  BulkSessionRequest,
+  Folder,
+  FolderRequest,
+  FoldersResponse,
+  Tag,
+  TagsResponse,
+  CreateTagRequest,
+  UpdateTagRequest,
   StatusResponse,
+  ToolApprovalRequest,
 } from "./types";
 import { env } from "./env";
-import { addApiBreadcrumb, captureError, getTracingHeaders } from "./sentry";
+import { addApiBreadcrumb, captureError } from "./sentry";
+import { APIRequestError, SessionExpiredError } from "./errors";
+import { authFetch, errorFromResponse, type TransportOptions } from "./transport";
 
 class APIClient {
   private baseUrl: string;
-  private isRefreshing = false;
-  private refreshPromise: Promise<boolean> | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
   }
 
-  private getCsrfToken(): string {
-    // Read CSRF token from cookie (double-submit pattern)
-    // Note: Token is stored without encoding, so read it directly
-    if (typeof document === "undefined") {
-      return "";
-    }
-    const match = document.cookie.match(/(?:^|;\s*)csrf_token=([^;]*)/);
-    return match ? match[1] : "";
-  }
-
   private async fetch<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: TransportOptions = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
-    const csrfToken = this.getCsrfToken();
     const method = options.method || "GET";
 
     try {
-      const response = await fetch(url, {
+      const response = await authFetch(url, {
         ...options,
-        credentials: "include", // Include cookies for auth
         headers: {
           "Content-Type": "application/json",
-          "X-CSRF-Token": csrfToken,
-          ...getTracingHeaders(),
           ...options.headers,
         },
       });
@@ -53,50 +49,10 @@ class APIClient {
       // Add breadcrumb for the request
       addApiBreadcrumb(method, endpoint, response.status);
 
-      if (response.status === 401) {
-        // Try to refresh the token
-        const refreshed = await this.refreshToken();
-        if (refreshed) {
-          // Retry the original request
-          const retryResponse = await fetch(url, {
-            ...options,
-            credentials: "include",
-            headers: {
-              "Content-Type": "application/json",
-              "X-CSRF-Token": this.getCsrfToken(),
-              ...getTracingHeaders(),
-              ...options.headers,
-            },
-          });
-
-          addApiBreadcrumb(method, endpoint, retryResponse.status);
-
-          if (!retryResponse.ok) {
-            const error = (await retryResponse.json()) as APIError;
-            const errorMsg = error.error || "Request failed after token refresh";
-            addApiBreadcrumb(method, endpoint, retryResponse.status, errorMsg);
-            throw new Error(errorMsg);
-          }
-
-          return retryResponse.json() as Promise<T>;
-        } else {
-          // Redirect to login if refresh failed (but not if already on login)
-          if (
-            typeof window !== "undefined" &&
-            !window.location.pathname.startsWith("/login")
-          ) {
-            window.location.href = "/login";
-          }
-          throw new Error("Session expired");
-        }
-      }
-
       if (!response.ok) {
-        const error = (await response.json()) as APIError;
-        const errorMsg =
-          error.error || `Request failed with status ${response.status}`;
-        addApiBreadcrumb(method, endpoint, response.status, errorMsg);
-        throw new Error(errorMsg);
+        const error = await errorFromResponse(response);
+        addApiBreadcrumb(method, endpoint, response.status, error.message);
+        throw error;
       }
 
       // Handle empty responses (e.g., DELETE)
@@ -108,59 +64,21 @@ class APIClient {
       return JSON.parse(text) as T;
     } catch (error) {
       // Capture unexpected errors (not session expiry which is handled)
-      if (
-        error instanceof Error &&
-        !error.message.includes("Session expired")
-      ) {
-        captureError(error, { endpoint, method });
+      if (error instanceof Error && !(error instanceof SessionExpiredError)) {
+        captureError(error, {
+          endpoint,
+          method,
+          ...(error instanceof APIRequestError && {
+            status: error.status,
+            code: error.code,
+            requestId: error.requestId,
+          }),
+        });
       }
       throw error;
     }
   }
 
-  private async refreshToken(): Promise<boolean> {
-    // Prevent multiple simultaneous refresh requests
-    if (this.isRefreshing) {
-      return this.refreshPromise || Promise.resolve(false);
-    }
-
-    this.isRefreshing = true;
-    this.refreshPromise = this.doRefresh();
-
-    try {
-      return await this.refreshPromise;
-    } finally {
-      this.isRefreshing = false;
-      this.refreshPromise = null;
-    }
-  }
-
-  private async doRefresh(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v1/auth/refresh`, {
-        method: "POST",
-        credentials: "include",
-        headers: {
-          "X-CSRF-Token": this.getCsrfToken(),
-          ...getTracingHeaders(),
-        },
-      });
-
-      if (response.ok) {
-        // Update CSRF token from response for cross-origin setups
-        // Note: Don't encode the token - it's already URL-safe base64
-        const data = await response.json();
-        if (data.csrf_token && typeof document !== "undefined") {
-          document.cookie = `csrf_token=${data.csrf_token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
-        }
-        return true;
-      }
-      return false;
-    } catch {
-      return false;
-    }
-  }
-
   // Auth endpoints
   async getMe(): Promise<AuthMeResponse> {
     return this.fetch<AuthMeResponse>("/v1/auth/me");
@@ -178,9 +96,16 @@ class APIClient {
   }
 
   // Session endpoints
-  async getSessions(limit = 50, offset = 0): Promise<SessionsResponse> {
+  // Archived sessions are left out unless asked for
+  async getSessions(limit = 50, offset = 0, archived = false): Promise<SessionsResponse> {
     return this.fetch<SessionsResponse>(
-      `/v1/sessions?limit=${limit}&offset=${offset}`
+      `/v1/sessions?limit=${limit}&offset=${offset}${archived ? "&archived=true" : ""}`
+    );
+  }
+
+  async searchSessions(query: string, limit = 20): Promise<SessionSearchResponse> {
+    return this.fetch<SessionSearchResponse>(
+      `/v1/sessions/search?q=${encodeURIComponent(query)}&limit=${limit}`
     );
   }
 
@@ -195,19 +120,93 @@ class APIClient {
     });
   }
 
+  // Deleted sessions stay restorable until the retention window passes
+  async getDeletedSessions(): Promise<SessionsResponse> {
+    return this.fetch<SessionsResponse>("/v1/sessions/deleted");
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
     await this.fetch<void>(`/v1/sessions/${sessionId}`, {
       method: "DELETE",
     });
   }
 
-  async updateSession(sessionId: string, data: { title: string }): Promise<Session> {
+  async updateSession(sessionId: string, data: UpdateSessionRequest): Promise<Session> {
     return this.fetch<Session>(`/v1/sessions/${sessionId}`, {
       method: "PATCH",
       body: JSON.stringify(data),
     });
   }
 
+  async bulkUpdateSessions(data: BulkSessionRequest): Promise<void> {
+    await this.fetch<void>("/v1/sessions/bulk", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Folder endpoints (deleting a folder moves its sessions out of it)
+  async getFolders(): Promise<FoldersResponse> {
+    return this.fetch<FoldersResponse>("/v1/folders");
+  }
+
+  async createFolder(data: FolderRequest): Promise<Folder> {
+    return this.fetch<Folder>("/v1/folders", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateFolder(folderId: string, data: FolderRequest): Promise<Folder> {
+    return this.fetch<Folder>(`/v1/folders/${folderId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteFolder(folderId: string): Promise<void> {
+    await this.fetch<void>(`/v1/folders/${folderId}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Tag endpoints (deleting a tag removes it from every session)
+  async getTags(): Promise<TagsResponse> {
+    return this.fetch<TagsResponse>("/v1/tags");
+  }
+
+  async createTag(data: CreateTagRequest): Promise<Tag> {
+    return this.fetch<Tag>("/v1/tags", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateTag(tagId: string, data: UpdateTagRequest): Promise<Tag> {
+    return this.fetch<Tag>(`/v1/tags/${tagId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteTag(tagId: string): Promise<void> {
+    await this.fetch<void>(`/v1/tags/${tagId}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Tool approval endpoint (resumes a run paused for approval)
+  async submitToolApproval(
+    sessionId: string,
+    toolCallId: string,
+    data: ToolApprovalRequest
+  ): Promise<void> {
+    await this.fetch<void>(`/v1/sessions/${sessionId}/tool-calls/${toolCallId}/approval`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
   // Budget endpoints
   async getBudget(): Promise<BudgetResponse> {
     return this.fetch<BudgetResponse>("/v1/tenant/budget");
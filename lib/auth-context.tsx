@@ -8,8 +8,12 @@ import {
   useCallback,
   type ReactNode,
 } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { api } from "./api";
+import { clearUserState } from "./auth";
 import { setSentryUser } from "./sentry";
+import { subscribeToTabs } from "./tab-sync";
+import { syncRefreshAcrossTabs } from "./transport";
 import type { AuthMeResponse } from "./types";
 
 interface AuthContextType {
@@ -28,6 +32,7 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<AuthMeResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   const refreshUser = useCallback(async () => {
     try {
@@ -57,6 +62,29 @@ export function AuthProvider({ children }: AuthProviderProps) {
     checkAuth();
   }, []);
 
+  // Follow logins, logouts and session refreshes in other tabs
+  useEffect(() => {
+    const stopRefreshSync = syncRefreshAcrossTabs();
+    const unsubscribe = subscribeToTabs((message) => {
+      if (message.type === "logged_out") {
+        setUser(null);
+        setSentryUser(null);
+        clearUserState();
+        // Drop cached chats right away rather than on the next 401
+        queryClient.clear();
+        if (!window.location.pathname.startsWith("/login")) {
+          window.location.href = "/login";
+        }
+      } else if (message.type === "logged_in") {
+        void refreshUser();
+      }
+    });
+    return () => {
+      stopRefreshSync();
+      unsubscribe();
+    };
+  }, [queryClient, refreshUser]);
+
   const value: AuthContextType = {
     user,
     isLoading,
@@ -1,4 +1,7 @@
 import { api } from "./api";
+import { broadcast } from "./tab-sync";
+import { useChatStore } from "@/store/chat-store";
+import { useToolApprovalStore } from "@/store/tool-approval-store";
 
 export type OAuthProvider = "google" | "discord" | "apple";
 
@@ -11,8 +14,22 @@ export function loginWithOAuth(provider: OAuthProvider): void {
 }
 
 /**
- * Logs out the user by calling the backend logout endpoint
- * and redirecting to the login page
+ * Drops what the signed-out user leaves in this browser: responses still
+ * streaming, and the tools they always allow, which are stored locally and
+ * would otherwise carry over to the next user. Runs in the tab that logs out
+ * and in the others it signs out.
+ */
+export function clearUserState(): void {
+  const chatStore = useChatStore.getState();
+  for (const sessionId of chatStore.getStreamingSessionIds()) {
+    chatStore.stopStreaming(sessionId);
+  }
+  useToolApprovalStore.getState().clearAlwaysAllowed();
+}
+
+/**
+ * Logs out the user by calling the backend logout endpoint, signing out
+ * other open tabs and redirecting to the login page
  */
 export async function logout(): Promise<void> {
   try {
@@ -21,6 +38,8 @@ export async function logout(): Promise<void> {
     // Log error but continue with redirect
     console.error("Logout error:", error);
   } finally {
+    clearUserState();
+    broadcast({ type: "logged_out" });
     window.location.href = "/login";
   }
 }
@@ -0,0 +1,79 @@
+import type { Message } from "@/lib/types";
+
+/**
+ * The messages shown for a conversation whose messages form a tree, and the
+ * alternatives at each point where it branches.
+ */
+export interface ConversationPath {
+  messages: Message[];
+  // Ids of a shown message and its alternatives, oldest first, for each
+  // shown message that has any
+  branches: Record<string, string[]>;
+}
+
+// Parent key of the messages that start a conversation
+const ROOT = "";
+
+/**
+ * The key of the message a message follows. Messages that predate branching
+ * carry no parent and follow the one before them.
+ */
+function getParentKey(messages: Message[], index: number): string {
+  const parentId = messages[index].parent_id;
+  if (parentId !== undefined) return parentId ?? ROOT;
+  return index > 0 ? messages[index - 1].id : ROOT;
+}
+
+/**
+ * The alternative listed last in `preferredIds`, otherwise the newest one.
+ */
+function pickBranch(alternatives: Message[], preferredIds: string[]): Message {
+  for (let i = preferredIds.length - 1; i >= 0; i--) {
+    const preferred = alternatives.find((message) => message.id === preferredIds[i]);
+    if (preferred) return preferred;
+  }
+  return alternatives[alternatives.length - 1];
+}
+
+/**
+ * Walks a session's messages from the start, taking one alternative at each
+ * branch point: the one picked last (see `preferBranch`), or the newest.
+ */
+export function getConversationPath(
+  messages: Message[],
+  preferredIds: string[] = []
+): ConversationPath {
+  const children = new Map<string, Message[]>();
+  messages.forEach((message, index) => {
+    const key = getParentKey(messages, index);
+    children.set(key, [...(children.get(key) ?? []), message]);
+  });
+
+  const path: Message[] = [];
+  const branches: Record<string, string[]> = {};
+  let alternatives = children.get(ROOT);
+  while (alternatives?.length) {
+    const next = pickBranch(alternatives, preferredIds);
+    path.push(next);
+    if (alternatives.length > 1) {
+      branches[next.id] = alternatives.map((message) => message.id);
+    }
+    alternatives = children.get(next.id);
+  }
+  return { messages: path, branches };
+}
+
+/**
+ * Preferred ids after picking `messageId`, which takes precedence over the
+ * alternatives picked before it.
+ */
+export function preferBranch(preferredIds: string[], messageId: string): string[] {
+  return [...preferredIds.filter((id) => id !== messageId), messageId];
+}
+
+/**
+ * Preferred ids without any of `alternativeIds`, so the newest of them shows.
+ */
+export function clearBranchPreference(preferredIds: string[], alternativeIds: string[]): string[] {
+  return preferredIds.filter((id) => !alternativeIds.includes(id));
+}
@@ -0,0 +1,23 @@
+// Days a deleted session can be restored before it is permanently deleted
+export const DELETED_SESSION_RETENTION_DAYS = 30;
+
+// How long the toast shown after a delete offers Undo
+export const UNDO_DELETE_TOAST_MS = 6000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days left before a deleted session is permanently deleted, counting
+ * a partial day as one.
+ */
+export function getDaysUntilPurge(deletedAt: string, now = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + DELETED_SESSION_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
+
+/**
+ * Whether a deleted session is past the retention window.
+ */
+export function isPastRetention(deletedAt: string, now = new Date()): boolean {
+  return getDaysUntilPurge(deletedAt, now) === 0;
+}
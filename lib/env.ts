@@ -12,6 +12,7 @@ declare global {
     __ENV__?: {
       NEXT_PUBLIC_BACKEND_URL?: string;
       NEXT_PUBLIC_APP_URL?: string;
+      NEXT_PUBLIC_STREAM_STALL_TIMEOUT_MS?: string;
     };
   }
 }
@@ -32,4 +33,9 @@ export const env = {
   get APP_URL(): string {
     return getEnv("NEXT_PUBLIC_APP_URL", "http://localhost:3000");
   },
+  // Idle time (ms) without any SSE activity before a stream is flagged as stalled
+  get STREAM_STALL_TIMEOUT_MS(): number {
+    const value = parseInt(getEnv("NEXT_PUBLIC_STREAM_STALL_TIMEOUT_MS", "45000"), 10);
+    return isNaN(value) || value <= 0 ? 45000 : value;
+  },
 };
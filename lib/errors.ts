@@ -0,0 +1,118 @@
+/**
+ * Typed errors for failed backend requests and stream error events. Each
+ * carries the HTTP status (absent for errors reported mid-stream), the
+ * backend error code and the request id, so the UI can offer a recovery
+ * action and support can find the request in the logs.
+ */
+
+export interface APIRequestErrorDetails {
+  status?: number;
+  code?: string;
+  requestId?: string;
+  // Delay requested by the backend before retrying (rate limits)
+  retryAfterMs?: number | null;
+}
+
+export class APIRequestError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, details: APIRequestErrorDetails = {}) {
+    super(message);
+    this.name = "APIRequestError";
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+  }
+}
+
+export class SessionExpiredError extends APIRequestError {
+  constructor(message = "Session expired") {
+    super(message, { status: 401, code: "session_expired" });
+    this.name = "SessionExpiredError";
+  }
+}
+
+export class RateLimitError extends APIRequestError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, details: APIRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "RateLimitError";
+    this.retryAfterMs = details.retryAfterMs ?? null;
+  }
+}
+
+export class BudgetExceededError extends APIRequestError {
+  constructor(message: string, details: APIRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export class ContextTooLongError extends APIRequestError {
+  constructor(message: string, details: APIRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "ContextTooLongError";
+  }
+}
+
+export class ServerError extends APIRequestError {
+  constructor(message: string, details: APIRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "ServerError";
+  }
+}
+
+type ErrorClass = new (message: string, details: APIRequestErrorDetails) => APIRequestError;
+
+// Backend error codes, as sent in API error bodies and SSE error events
+const ERRORS_BY_CODE: Record<string, ErrorClass> = {
+  rate_limited: RateLimitError,
+  rate_limit_exceeded: RateLimitError,
+  budget_exceeded: BudgetExceededError,
+  insufficient_budget: BudgetExceededError,
+  context_too_long: ContextTooLongError,
+  context_length_exceeded: ContextTooLongError,
+  internal_error: ServerError,
+  upstream_error: ServerError,
+};
+
+const ERRORS_BY_STATUS: Record<number, ErrorClass> = {
+  402: BudgetExceededError,
+  413: ContextTooLongError,
+  429: RateLimitError,
+};
+
+/**
+ * Creates the most specific error for a backend code, falling back to the
+ * HTTP status when the code is missing or unknown.
+ */
+export function createAPIError(
+  message: string,
+  details: APIRequestErrorDetails = {}
+): APIRequestError {
+  const { code, status } = details;
+  if (code && Object.hasOwn(ERRORS_BY_CODE, code)) {
+    return new ERRORS_BY_CODE[code](message, details);
+  }
+  if (status !== undefined && ERRORS_BY_STATUS[status]) {
+    return new ERRORS_BY_STATUS[status](message, details);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new APIRequestError(message, details);
+}
+
+/**
+ * Appends the request id to an error message so users can quote it.
+ */
+export function formatErrorMessage(error: Error, fallback = "Something went wrong"): string {
+  const message = error.message || fallback;
+  if (error instanceof APIRequestError && error.requestId) {
+    return `${message} (request ${error.requestId})`;
+  }
+  return message;
+}
@@ -0,0 +1,117 @@
+import { validateContentBlock } from "@/lib/validation";
+import type { ChartBlock, ChartSeriesItem, Message, ToolCall } from "@/lib/types";
+
+// Rows charted from a table; longer tables are only shown as tables
+const MAX_CHART_ROWS = 50;
+
+/**
+ * A tool output collected into an exploration's data pane.
+ */
+export interface ExplorerOutput {
+  // The tool call's id
+  id: string;
+  tool: string;
+  output: Record<string, unknown>;
+}
+
+export interface ExplorerTable {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Completed tool outputs of a conversation, oldest first, followed by those
+ * of the response being streamed.
+ */
+export function collectToolOutputs(
+  messages: Message[],
+  streamingToolCalls: ToolCall[] = []
+): ExplorerOutput[] {
+  const outputs: ExplorerOutput[] = [];
+  const seen = new Set<string>();
+  const toolCalls = messages.flatMap((message) => message.tool_calls ?? []);
+  for (const toolCall of [...toolCalls, ...streamingToolCalls]) {
+    if (toolCall.status !== "completed" || !toolCall.output || seen.has(toolCall.id)) continue;
+    seen.add(toolCall.id);
+    outputs.push({ id: toolCall.id, tool: toolCall.tool, output: toolCall.output });
+  }
+  return outputs;
+}
+
+/**
+ * The rows in a tool output, when it is a list of records: either the output
+ * itself or its only list-valued field (`{ rows: [...] }`, `{ pools: [...] }`).
+ * Columns are the union of the rows' keys, in first-seen order.
+ */
+export function getOutputTable(output: unknown): ExplorerTable | null {
+  let rows: unknown = output;
+  if (isRecord(output)) {
+    const lists = Object.values(output).filter(Array.isArray);
+    if (lists.length !== 1) return null;
+    rows = lists[0];
+  }
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every(isRecord)) {
+    return null;
+  }
+
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return { columns, rows };
+}
+
+/**
+ * A chart for a tool output: the output itself when the tool returned a valid
+ * chart block, otherwise a bar chart of a table's numeric columns against its
+ * first text column. Null when neither fits, leaving the table and JSON views.
+ */
+export function getOutputChart(output: unknown): ChartBlock | null {
+  if (isRecord(output) && "chart_type" in output && "chart_data" in output) {
+    const result = validateContentBlock({ ...output, type: "chart" });
+    return result.ok ? (result.value as ChartBlock) : null;
+  }
+
+  const table = getOutputTable(output);
+  if (!table || table.rows.length > MAX_CHART_ROWS) return null;
+
+  const categoryColumn = table.columns.find((column) =>
+    table.rows.every((row) => typeof row[column] === "string")
+  );
+  const valueColumns = table.columns.filter((column) =>
+    table.rows.every((row) => typeof row[column] === "number")
+  );
+  if (!categoryColumn || valueColumns.length === 0) return null;
+
+  return {
+    type: "chart",
+    chart_type: "bar",
+    chart_data: {
+      x_axis: {
+        label: categoryColumn,
+        data: table.rows.map((row) => row[categoryColumn] as string),
+      },
+      series: valueColumns.map(
+        (column): ChartSeriesItem => ({
+          name: column,
+          data: table.rows.map((row) => row[column] as number),
+        })
+      ),
+    },
+  };
+}
+
+/**
+ * Text for a table cell: primitives as-is, nested values as compact JSON.
+ */
+export function formatCellValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
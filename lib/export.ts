@@ -0,0 +1,56 @@
+import { getConversationPath } from "./branches";
+import type { Message, SessionWithMessages } from "./types";
+
+const ROLE_LABELS: Record<Message["role"], string> = {
+  user: "You",
+  assistant: "Badlands AI",
+  system: "System",
+};
+
+// Reasoning traces are left out; exports hold the conversation itself
+function formatMessage(message: Message): string {
+  return `## ${ROLE_LABELS[message.role]}\n\n${message.content}`;
+}
+
+/**
+ * Renders a conversation as a Markdown document. A branched conversation is
+ * exported as the branch it shows by default (the newest at each point).
+ */
+export function formatSessionAsMarkdown(session: SessionWithMessages): string {
+  const title = session.title || "Untitled chat";
+  const { messages } = getConversationPath(session.messages);
+  return [`# ${title}`, ...messages.map(formatMessage)].join("\n\n") + "\n";
+}
+
+/**
+ * Renders several conversations as one Markdown document, separated by
+ * horizontal rules.
+ */
+export function formatSessionsAsMarkdown(sessions: SessionWithMessages[]): string {
+  return sessions.map(formatSessionAsMarkdown).join("\n---\n\n");
+}
+
+/**
+ * File name for a bulk export, dated so repeated exports don't collide.
+ */
+export function getBulkExportFileName(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `badlands-chats-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.md`;
+}
+
+/**
+ * Triggers a browser download of text content.
+ */
+export function downloadTextFile(fileName: string, content: string, type = "text/markdown") {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  // Some browsers start the download asynchronously, after click() returns
+  setTimeout(() => {
+    link.remove();
+    URL.revokeObjectURL(url);
+  }, 0);
+}
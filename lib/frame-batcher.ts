@@ -0,0 +1,70 @@
+/**
+ * Coalesces streamed text deltas and delivers them at most once per
+ * animation frame, so fast token streams cause one store update (and one
+ * render) per frame instead of one per SSE event. Frames don't fire in
+ * hidden tabs; queued text is delivered on the next visible frame or flush.
+ */
+export interface FrameBatcher {
+  /** Queues text for the next frame */
+  push: (text: string) => void;
+  /** Delivers any queued text immediately */
+  flush: () => void;
+  /** Drops queued text and cancels the pending frame */
+  cancel: () => void;
+}
+
+type FrameHandle = ReturnType<typeof setTimeout> | number;
+
+// Fallback frame interval when requestAnimationFrame is unavailable (e.g. SSR)
+const FALLBACK_FRAME_MS = 16;
+
+function scheduleFrame(callback: () => void): FrameHandle {
+  if (typeof requestAnimationFrame === "function") {
+    return requestAnimationFrame(callback);
+  }
+  return setTimeout(callback, FALLBACK_FRAME_MS);
+}
+
+function cancelFrame(handle: FrameHandle): void {
+  if (typeof cancelAnimationFrame === "function" && typeof handle === "number") {
+    cancelAnimationFrame(handle);
+  } else {
+    clearTimeout(handle);
+  }
+}
+
+export function createFrameBatcher(onFlush: (text: string) => void): FrameBatcher {
+  let pending = "";
+  let frame: FrameHandle | null = null;
+
+  const flush = () => {
+    if (frame !== null) {
+      cancelFrame(frame);
+      frame = null;
+    }
+    if (!pending) return;
+    const text = pending;
+    pending = "";
+    onFlush(text);
+  };
+
+  return {
+    push: (text) => {
+      pending += text;
+      if (frame === null) {
+        frame = scheduleFrame(() => {
+          frame = null;
+          flush();
+        });
+      }
+    },
+    flush,
+    cancel: () => {
+      if (frame !== null) {
+        cancelFrame(frame);
+        frame = null;
+      }
+      pending = "";
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import { useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createStreamResumer, streamMessage } from "@/lib/streaming";
+import { createFrameBatcher } from "@/lib/frame-batcher";
+import { addStreamingBreadcrumb } from "@/lib/sentry";
+import {
+  APIRequestError,
+  BudgetExceededError,
+  ContextTooLongError,
+  RateLimitError,
+  formatErrorMessage,
+} from "@/lib/errors";
+import { submitToolApproval } from "@/lib/hooks/use-tool-approval";
+// Register the reasoning_delta and tool_approval_required SSE events
+import "@/lib/reasoning";
+import "@/lib/tool-approval";
+import {
+  useChatStore,
+  getStreamToolCalls,
+  getStreamContentBlocks,
+} from "@/store/chat-store";
+import { useToolApprovalStore } from "@/store/tool-approval-store";
+import type { Message, SendMessageRequest, SessionWithMessages } from "@/lib/types";
+
+/**
+ * Whether an error has a dedicated recovery notice (see StreamErrorNotice).
+ */
+function hasRecoveryNotice(error: Error): error is APIRequestError {
+  return (
+    error instanceof RateLimitError ||
+    error instanceof BudgetExceededError ||
+    error instanceof ContextTooLongError
+  );
+}
+
+/**
+ * Builds the assistant message for a completed stream from the store.
+ */
+function finalizeMessage(sessionId: string, messageId: string, parentId?: string): Message {
+  const stream = useChatStore.getState().getStream(sessionId);
+  const toolCalls = getStreamToolCalls(stream);
+  const contentBlocks = getStreamContentBlocks(stream);
+  // Reasoning without a following answer ends with the stream
+  const reasoningDurationMs =
+    stream.reasoningDurationMs ??
+    (stream.reasoningStartedAt !== null ? Date.now() - stream.reasoningStartedAt : undefined);
+
+  return {
+    id: messageId,
+    role: "assistant",
+    parent_id: parentId,
+    content: stream.streamingContent,
+    content_blocks: contentBlocks.length > 0 ? contentBlocks : undefined,
+    created_at: new Date().toISOString(),
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    citations: stream.streamingCitations.length > 0 ? stream.streamingCitations : undefined,
+    usage: stream.usage ?? undefined,
+    reasoning: stream.reasoning || undefined,
+    reasoning_duration_ms: stream.reasoning ? reasoningDurationMs : undefined,
+  };
+}
+
+interface StreamToSessionOptions {
+  // Refetch the session on error to drop optimistic updates (e.g. on retry)
+  restoreOnError?: boolean;
+  // The user message the response follows (e.g. the optimistic one), so the
+  // finished response sits under it until the refetched session replaces it
+  userMessageId?: string;
+}
+
+/**
+ * Returns a function that streams a response into the chat store for a
+ * given session. Streams are keyed by session id and are not tied to the
+ * component lifecycle, so they keep running when the user navigates away.
+ */
+export function useChatStream() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async function streamToSession(
+      sessionId: string,
+      request: SendMessageRequest,
+      options: StreamToSessionOptions = {}
+    ): Promise<void> {
+      const store = useChatStore.getState();
+      const resumer = createStreamResumer();
+      const controller = store.startStreaming(sessionId, request, resumer);
+      // Content and reasoning deltas are applied once per animation frame;
+      // anything that reads the accumulated text flushes first to keep
+      // ordering intact
+      const contentBuffer = createFrameBatcher((text) =>
+        store.appendContent(sessionId, text)
+      );
+      const reasoningBuffer = createFrameBatcher((text) =>
+        store.appendReasoning(sessionId, text)
+      );
+
+      // Errors with a recovery action are shown in the chat; others are toasted
+      const reportFailure = (error: Error) => {
+        if (hasRecoveryNotice(error)) {
+          store.setFailure(sessionId, { error, request, failedAt: Date.now() });
+        } else {
+          toast.error(formatErrorMessage(error, "Failed to get response"));
+        }
+      };
+
+      const restore = () => {
+        if (options.restoreOnError) {
+          queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
+        }
+      };
+
+      try {
+        await streamMessage(
+          sessionId,
+          request,
+          {
+            onReasoning: (text) => reasoningBuffer.push(text),
+            onContent: (text) => {
+              reasoningBuffer.flush();
+              contentBuffer.push(text);
+            },
+            onContentBlock: (index, block) => {
+              reasoningBuffer.flush();
+              contentBuffer.flush();
+              store.addContentBlock(sessionId, index, block);
+            },
+            onToolCallStart: (id, tool) =>
+              store.addToolCallStart(sessionId, id, tool),
+            onToolCallDelta: (id, delta) =>
+              store.appendToolCallInput(sessionId, id, delta),
+            onToolApprovalRequired: (id, tool, input) => {
+              store.requestToolApproval(sessionId, id, tool, input);
+              if (useToolApprovalStore.getState().isAlwaysAllowed(tool)) {
+                void submitToolApproval(sessionId, { id, tool, input }, { decision: "approve" });
+              }
+            },
+            onToolCallEnd: (id, tool, output, error) =>
+              store.updateToolCallEnd(sessionId, id, tool, output, error),
+            onCitation: (source, sourceRef, reference) =>
+              store.addCitation(sessionId, { source, source_ref: sourceRef, reference }),
+            onProgress: (phase, startedAt, toolName, iteration) =>
+              store.setProgress(sessionId, phase, startedAt, toolName, iteration),
+            onUsage: (inputTokens, outputTokens, totalTokens, costUsd) =>
+              store.setUsage(sessionId, {
+                input_tokens: inputTokens,
+                output_tokens: outputTokens,
+                total_tokens: totalTokens,
+                cost_usd: costUsd,
+              }),
+            onStall: () => {
+              // A run paused for approval is waiting on the user, not stuck
+              const awaitingApproval = store
+                .getToolCalls(sessionId)
+                .some((toolCall) => toolCall.status === "awaiting_approval");
+              if (!awaitingApproval) {
+                store.setStalled(sessionId, true);
+              }
+            },
+            onStallRecovered: () => store.setStalled(sessionId, false),
+            onReconnect: (attempt, lastEventId) => {
+              // Without an event id the response is replayed from the start
+              if (lastEventId === "") {
+                reasoningBuffer.cancel();
+                contentBuffer.cancel();
+                store.clearStreamedResponse(sessionId);
+              }
+              store.setReconnecting(sessionId, attempt);
+            },
+            onReconnected: () => store.setReconnecting(sessionId, null),
+            onDone: (messageId) => {
+              reasoningBuffer.flush();
+              contentBuffer.flush();
+              // Keep the finished response (with its usage) in the cache
+              // until the refetched session replaces it
+              const finalized = finalizeMessage(sessionId, messageId, options.userMessageId);
+              queryClient.setQueryData(
+                ["session", sessionId],
+                (old: SessionWithMessages | null | undefined) =>
+                  old
+                    ? {
+                        ...old,
+                        messages: [
+                          ...old.messages.filter((m) => m.id !== messageId),
+                          finalized,
+                        ],
+                      }
+                    : old
+              );
+              store.resetStreaming(sessionId, controller);
+              queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
+              // Delay sessions invalidation to allow backend title generation to complete
+              setTimeout(() => {
+                queryClient.invalidateQueries({ queryKey: ["sessions"] });
+              }, 1500);
+            },
+            onError: (error) => {
+              reasoningBuffer.cancel();
+              contentBuffer.cancel();
+              reportFailure(error);
+              store.resetStreaming(sessionId, controller);
+              restore();
+            },
+          },
+          controller.signal,
+          { resumer }
+        );
+        reasoningBuffer.flush();
+        contentBuffer.flush();
+      } catch (error) {
+        reasoningBuffer.cancel();
+        contentBuffer.cancel();
+        // A stalled stream retried after its run is gone (nothing left to
+        // resume) is sent again with the same request
+        if (resumer.requested && error instanceof APIRequestError && error.status === 404) {
+          addStreamingBreadcrumb("resend", sessionId);
+          store.resetStreaming(sessionId, controller);
+          return streamToSession(
+            sessionId,
+            request,
+            { ...options, restoreOnError: true }
+          );
+        }
+        if ((error as Error).name !== "AbortError") {
+          reportFailure(error as Error);
+        }
+        store.resetStreaming(sessionId, controller);
+        restore();
+      }
+    },
+    [queryClient]
+  );
+}
+
+/**
+ * Returns a function that drops a session's current (stalled) connection and
+ * resumes the response from its last event on a new one. If the run is gone,
+ * the stream sends its request again (see useChatStream).
+ */
+export function useRetryStream() {
+  return useCallback((sessionId: string) => {
+    const { resumer } = useChatStore.getState().getStream(sessionId);
+    if (!resumer) return;
+
+    addStreamingBreadcrumb("retry", sessionId);
+    resumer.resume();
+  }, []);
+}
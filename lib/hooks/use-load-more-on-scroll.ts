@@ -0,0 +1,36 @@
+import { useEffect, type RefObject } from "react";
+
+// Distance in pixels from the end of a list at which the next page loads
+const LOAD_MORE_THRESHOLD = 200;
+
+/**
+ * Loads the next page when a scrolling list nears its end, or right away
+ * while the loaded items don't fill it. `canLoadMore` should be false while
+ * a page loads, after one fails (so a retry button takes over instead of a
+ * loop) and once everything is loaded. `itemCount` re-checks the fill after
+ * each page arrives.
+ */
+export function useLoadMoreOnScroll(
+  containerRef: RefObject<HTMLElement | null>,
+  onLoadMore: (() => void) | undefined,
+  canLoadMore: boolean,
+  itemCount: number
+) {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !onLoadMore || !canLoadMore) return;
+
+    let requested = false;
+    const loadIfNearEnd = () => {
+      const { scrollTop, scrollHeight, clientHeight } = container;
+      if (!requested && scrollHeight - scrollTop - clientHeight <= LOAD_MORE_THRESHOLD) {
+        requested = true;
+        onLoadMore();
+      }
+    };
+
+    loadIfNearEnd();
+    container.addEventListener("scroll", loadIfNearEnd);
+    return () => container.removeEventListener("scroll", loadIfNearEnd);
+  }, [containerRef, onLoadMore, canLoadMore, itemCount]);
+}
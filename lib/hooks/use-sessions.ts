@@ -1,11 +1,124 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { toast } from "sonner";
 import { api } from "@/lib/api";
-import type { CreateSessionRequest } from "@/lib/types";
+import { broadcast, subscribeToTabs } from "@/lib/tab-sync";
+import { downloadTextFile, formatSessionsAsMarkdown, getBulkExportFileName } from "@/lib/export";
+import { MIN_CONTENT_SEARCH_LENGTH } from "@/lib/search";
+import { UNDO_DELETE_TOAST_MS } from "@/lib/deleted-sessions";
+import type {
+  BulkSessionRequest,
+  CreateSessionRequest,
+  Session,
+  SessionsResponse,
+  SessionWithMessages,
+  UpdateSessionRequest,
+} from "@/lib/types";
+
+// Sessions fetched per page as the sidebar scrolls
+export const SESSIONS_PAGE_SIZE = 50;
+
+export type SessionPages = InfiniteData<SessionsResponse, number>;
+
+/**
+ * Offset of the page after `lastPage`, or undefined once every session is
+ * loaded.
+ */
+export function getNextSessionsOffset(lastPage: SessionsResponse): number | undefined {
+  const nextOffset = lastPage.offset + lastPage.sessions.length;
+  return lastPage.sessions.length > 0 && nextOffset < lastPage.total ? nextOffset : undefined;
+}
+
+/**
+ * Joins the loaded pages into one list. Sessions created after the first
+ * page loaded shift later pages, so a session can appear twice; the first
+ * copy wins.
+ */
+export function flattenSessionPages(data: SessionPages): { sessions: Session[]; total: number } {
+  const seen = new Set<string>();
+  const sessions: Session[] = [];
+  for (const page of data.pages) {
+    for (const session of page.sessions) {
+      if (seen.has(session.id)) continue;
+      seen.add(session.id);
+      sessions.push(session);
+    }
+  }
+  return { sessions, total: data.pages[data.pages.length - 1]?.total ?? 0 };
+}
+
+/**
+ * Applies an optimistic change to every loaded page of the session list.
+ */
+export function updateSessionPages(
+  data: SessionPages | undefined,
+  update: (sessions: Session[], pageIndex: number) => Session[],
+  totalDelta = 0
+): SessionPages | undefined {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => ({
+      ...page,
+      sessions: update(page.sessions, index),
+      total: page.total + totalDelta,
+    })),
+  };
+}
+
+/**
+ * Takes sessions out of every loaded page, lowering the total by the number
+ * removed.
+ */
+export function removeFromSessionPages(
+  data: SessionPages | undefined,
+  sessionIds: Set<string>
+): SessionPages | undefined {
+  const removed = (data?.pages ?? [])
+    .flatMap((page) => page.sessions)
+    .filter((s) => sessionIds.has(s.id)).length;
+  return updateSessionPages(
+    data,
+    (sessions) => sessions.filter((s) => !sessionIds.has(s.id)),
+    -removed
+  );
+}
+
+// Stops in-flight list fetches from overwriting an optimistic change and
+// returns the list to restore if the change fails
+async function snapshotSessionPages(queryClient: QueryClient) {
+  await queryClient.cancelQueries({ queryKey: ["sessions"], exact: true });
+  return queryClient.getQueryData<SessionPages>(["sessions"]);
+}
 
 export function useSessions() {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: ["sessions"],
-    queryFn: () => api.getSessions(),
+    queryFn: ({ pageParam }) => api.getSessions(SESSIONS_PAGE_SIZE, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: getNextSessionsOffset,
+    select: flattenSessionPages,
+  });
+}
+
+/**
+ * Searches message content across all sessions (titles are filtered
+ * locally). Disabled for queries too short to search.
+ */
+export function useSessionSearch(query: string) {
+  const trimmedQuery = query.trim();
+  return useQuery({
+    queryKey: ["sessions", "search", trimmedQuery],
+    queryFn: () => api.searchSessions(trimmedQuery),
+    enabled: trimmedQuery.length >= MIN_CONTENT_SEARCH_LENGTH,
+    staleTime: 30_000,
   });
 }
 
@@ -22,8 +135,17 @@ export function useCreateSession() {
 
   return useMutation({
     mutationFn: (data: CreateSessionRequest) => api.createSession(data),
-    onSuccess: () => {
+    onSuccess: (session) => {
+      // Show the new session at the top right away; the refetch confirms it
+      queryClient.setQueryData<SessionPages>(["sessions"], (data) =>
+        updateSessionPages(
+          data,
+          (sessions, pageIndex) => (pageIndex === 0 ? [session, ...sessions] : sessions),
+          1
+        )
+      );
       queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      broadcast({ type: "sessions_changed" });
     },
   });
 }
@@ -33,7 +155,20 @@ export function useDeleteSession() {
 
   return useMutation({
     mutationFn: (sessionId: string) => api.deleteSession(sessionId),
-    onSuccess: () => {
+    onMutate: async (sessionId) => {
+      const previous = await snapshotSessionPages(queryClient);
+      queryClient.setQueryData<SessionPages>(["sessions"], (data) =>
+        updateSessionPages(data, (sessions) => sessions.filter((s) => s.id !== sessionId), -1)
+      );
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      queryClient.setQueryData(["sessions"], context?.previous);
+    },
+    onSuccess: (_, sessionId) => {
+      broadcast({ type: "sessions_changed", sessionId });
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ["sessions"] });
     },
   });
@@ -43,11 +178,227 @@ export function useUpdateSession() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ sessionId, title }: { sessionId: string; title: string }) =>
-      api.updateSession(sessionId, { title }),
+    mutationFn: ({ sessionId, ...changes }: { sessionId: string } & UpdateSessionRequest) =>
+      api.updateSession(sessionId, changes),
+    onMutate: async ({ sessionId, ...changes }) => {
+      const previous = await snapshotSessionPages(queryClient);
+      queryClient.setQueryData<SessionPages>(["sessions"], (data) =>
+        // Archived sessions leave the list
+        changes.archived
+          ? removeFromSessionPages(data, new Set([sessionId]))
+          : updateSessionPages(data, (sessions) =>
+              sessions.map((s) => (s.id === sessionId ? { ...s, ...changes } : s))
+            )
+      );
+      const previousSession = queryClient.getQueryData<SessionWithMessages | null>([
+        "session",
+        sessionId,
+      ]);
+      if (previousSession) {
+        queryClient.setQueryData(["session", sessionId], { ...previousSession, ...changes });
+      }
+      return { previous, previousSession };
+    },
+    onError: (_, { sessionId }, context) => {
+      queryClient.setQueryData(["sessions"], context?.previous);
+      if (context?.previousSession) {
+        queryClient.setQueryData(["session", sessionId], context.previousSession);
+      }
+    },
     onSuccess: (_, variables) => {
+      broadcast({ type: "sessions_changed", sessionId: variables.sessionId });
+    },
+    onSettled: (_, __, variables) => {
       queryClient.invalidateQueries({ queryKey: ["sessions"] });
       queryClient.invalidateQueries({ queryKey: ["session", variables.sessionId] });
     },
   });
 }
+
+/**
+ * Exports several sessions into one Markdown file.
+ */
+export function useExportSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionIds: string[]) => {
+      const sessions = await Promise.all(
+        sessionIds.map((sessionId) =>
+          queryClient.fetchQuery({
+            queryKey: ["session", sessionId],
+            queryFn: () => api.getSession(sessionId),
+          })
+        )
+      );
+      downloadTextFile(getBulkExportFileName(), formatSessionsAsMarkdown(sessions));
+    },
+  });
+}
+
+/**
+ * Deletes, archives or moves several sessions at once. The list updates
+ * optimistically and is restored if the request fails.
+ */
+export function useBulkSessionAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: BulkSessionRequest) => api.bulkUpdateSessions(request),
+    onMutate: async (request) => {
+      const previous = await snapshotSessionPages(queryClient);
+      const ids = new Set(request.session_ids);
+      queryClient.setQueryData<SessionPages>(["sessions"], (data) => {
+        if (request.action === "move") {
+          const folderId = request.folder_id;
+          return updateSessionPages(data, (sessions) =>
+            sessions.map((s) => (ids.has(s.id) ? { ...s, folder_id: folderId } : s))
+          );
+        }
+        // Deleted and archived sessions both leave the list
+        return removeFromSessionPages(data, ids);
+      });
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      queryClient.setQueryData(["sessions"], context?.previous);
+    },
+    onSuccess: () => {
+      broadcast({ type: "sessions_changed" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    },
+  });
+}
+
+/**
+ * Archived sessions, which the default session list leaves out. Paged like
+ * the session list.
+ */
+export function useArchivedSessions(enabled = true) {
+  return useInfiniteQuery({
+    queryKey: ["sessions", "archived"],
+    queryFn: ({ pageParam }) => api.getSessions(SESSIONS_PAGE_SIZE, pageParam, true),
+    initialPageParam: 0,
+    getNextPageParam: getNextSessionsOffset,
+    select: flattenSessionPages,
+    enabled,
+  });
+}
+
+/**
+ * Sessions in "Recently deleted", which the backend keeps until the
+ * retention window passes.
+ */
+export function useDeletedSessions(enabled = true) {
+  return useQuery({
+    queryKey: ["sessions", "deleted"],
+    queryFn: () => api.getDeletedSessions(),
+    enabled,
+  });
+}
+
+/**
+ * Restores deleted sessions, taking them out of "Recently deleted" right
+ * away. The session list picks them up when it refetches.
+ */
+export function useRestoreSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sessionIds: string[]) =>
+      api.bulkUpdateSessions({ action: "restore", session_ids: sessionIds }),
+    onMutate: async (sessionIds) => {
+      await queryClient.cancelQueries({ queryKey: ["sessions", "deleted"] });
+      const previous = queryClient.getQueryData<SessionsResponse>(["sessions", "deleted"]);
+      if (previous) {
+        const sessions = previous.sessions.filter((s) => !sessionIds.includes(s.id));
+        queryClient.setQueryData<SessionsResponse>(["sessions", "deleted"], {
+          ...previous,
+          sessions,
+          total: previous.total - (previous.sessions.length - sessions.length),
+        });
+      }
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      queryClient.setQueryData(["sessions", "deleted"], context?.previous);
+    },
+    onSuccess: () => {
+      broadcast({ type: "sessions_changed" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    },
+  });
+}
+
+/**
+ * Deletes one or several sessions, offering Undo in a toast for a few seconds.
+ * `onDeleted` is called with the deleted ids (e.g. to leave an open one).
+ */
+export function useSoftDeleteSessions(onDeleted: (sessionIds: string[]) => void) {
+  const deleteSession = useDeleteSession();
+  const bulkSessionAction = useBulkSessionAction();
+  const restoreSessions = useRestoreSessions();
+
+  const offerUndoDelete = useCallback(
+    (sessionIds: string[]) => {
+      toast(sessionIds.length === 1 ? "Chat deleted" : `${sessionIds.length} chats deleted`, {
+        duration: UNDO_DELETE_TOAST_MS,
+        action: {
+          label: "Undo",
+          onClick: () =>
+            restoreSessions.mutate(sessionIds, {
+              onError: () => toast.error("Failed to restore chats"),
+            }),
+        },
+      });
+    },
+    [restoreSessions]
+  );
+
+  const deleteOne = useCallback(
+    async (sessionId: string) => {
+      try {
+        await deleteSession.mutateAsync(sessionId);
+        offerUndoDelete([sessionId]);
+        onDeleted([sessionId]);
+      } catch {
+        toast.error("Failed to delete session");
+      }
+    },
+    [deleteSession, offerUndoDelete, onDeleted]
+  );
+
+  const deleteMany = useCallback(
+    async (sessionIds: string[]) => {
+      try {
+        await bulkSessionAction.mutateAsync({ action: "delete", session_ids: sessionIds });
+        offerUndoDelete(sessionIds);
+        onDeleted(sessionIds);
+      } catch {
+        toast.error("Failed to delete chats");
+      }
+    },
+    [bulkSessionAction, offerUndoDelete, onDeleted]
+  );
+
+  return { deleteSession: deleteOne, deleteSessions: deleteMany };
+}
+
+/**
+ * Keeps the session list (and any open session) current when another tab
+ * creates, renames or deletes a session. Returns a function that stops
+ * listening.
+ */
+export function syncSessionsAcrossTabs(queryClient: QueryClient): () => void {
+  return subscribeToTabs((message) => {
+    if (message.type !== "sessions_changed") return;
+    queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    if (message.sessionId) {
+      queryClient.invalidateQueries({ queryKey: ["session", message.sessionId] });
+    }
+  });
+}
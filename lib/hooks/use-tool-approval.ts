@@ -0,0 +1,48 @@
+import { useCallback } from "react";
+import { toast } from "sonner";
+import { api } from "@/lib/api";
+import { addStreamingBreadcrumb } from "@/lib/sentry";
+import { useChatStore } from "@/store/chat-store";
+import { useToolApprovalStore } from "@/store/tool-approval-store";
+import type { ToolApprovalRequest, ToolCall } from "@/lib/types";
+
+type ApprovableToolCall = Pick<ToolCall, "id" | "tool" | "input">;
+
+/**
+ * Applies a tool approval decision to the streaming tool call and posts it to
+ * the backend, which resumes the paused run. If the backend rejects the
+ * decision the tool call goes back to awaiting approval.
+ */
+export async function submitToolApproval(
+  sessionId: string,
+  toolCall: ApprovableToolCall,
+  request: ToolApprovalRequest
+): Promise<void> {
+  const store = useChatStore.getState();
+  store.resolveToolApproval(sessionId, toolCall.id, request);
+  addStreamingBreadcrumb(`tool_approval_${request.decision}`, sessionId);
+
+  try {
+    await api.submitToolApproval(sessionId, toolCall.id, request);
+  } catch (error) {
+    store.requestToolApproval(sessionId, toolCall.id, toolCall.tool, toolCall.input);
+    toast.error((error as Error).message || "Failed to submit tool decision");
+  }
+}
+
+/**
+ * Returns a function that records the user's decision on a tool call awaiting
+ * approval, optionally remembering to always allow the tool.
+ */
+export function useToolApproval(sessionId: string | null | undefined) {
+  return useCallback(
+    (toolCall: ApprovableToolCall, request: ToolApprovalRequest, alwaysAllow = false) => {
+      if (!sessionId) return;
+      if (alwaysAllow && request.decision === "approve") {
+        useToolApprovalStore.getState().setAlwaysAllow(toolCall.tool, true);
+      }
+      return submitToolApproval(sessionId, toolCall, request);
+    },
+    [sessionId]
+  );
+}
@@ -190,3 +190,86 @@ export function parseMarkdownToBlocks(markdown: string): ContentBlock[] {
 
   return blocks;
 }
+
+// Lines that form a complete block on their own once terminated by a newline
+const HEADING_LINE = /^#{1,6}\s+.+$/;
+const HR_LINE = /^(\*{3,}|-{3,}|_{3,})$/;
+
+export interface IncrementalParseResult {
+  // Blocks that can no longer change as more text streams in
+  blocks: ContentBlock[];
+  // Trailing text whose block is still open
+  pending: string;
+}
+
+export interface IncrementalMarkdownParser {
+  update: (markdown: string) => IncrementalParseResult;
+}
+
+/**
+ * Finds the offset after the last completed block in `markdown`, scanning
+ * from `start` (which must itself be a block boundary). A block is complete
+ * after a blank line, a closed code fence, or a terminated heading/rule line,
+ * matching how parseMarkdownToBlocks splits blocks.
+ */
+function findCompletedBoundary(markdown: string, start: number): number {
+  let boundary = start;
+  let fence: string | null = null;
+  let pos = start;
+
+  while (true) {
+    const newline = markdown.indexOf("\n", pos);
+    if (newline === -1) break; // Last line is still being written
+
+    const line = markdown.slice(pos, newline);
+    const next = newline + 1;
+
+    if (fence) {
+      if (line.startsWith(fence)) {
+        fence = null;
+        boundary = next;
+      }
+    } else if (line.startsWith("```") || line.startsWith("~~~")) {
+      fence = line.startsWith("```") ? "```" : "~~~";
+    } else if (line.trim() === "" || HEADING_LINE.test(line) || HR_LINE.test(line.trim())) {
+      boundary = next;
+    }
+
+    pos = next;
+  }
+
+  return boundary;
+}
+
+/**
+ * Creates a parser for markdown that grows over time (streaming). Completed
+ * blocks are parsed once and frozen - the returned block objects keep their
+ * identity across updates so renderers can skip them - and only the trailing
+ * open block is returned as raw text.
+ */
+export function createIncrementalMarkdownParser(): IncrementalMarkdownParser {
+  let frozenText = "";
+  let blocks: ContentBlock[] = [];
+
+  return {
+    update(markdown) {
+      // Content was replaced rather than appended to (e.g. a new stream)
+      if (!markdown.startsWith(frozenText)) {
+        frozenText = "";
+        blocks = [];
+      }
+
+      const boundary = findCompletedBoundary(markdown, frozenText.length);
+      if (boundary > frozenText.length) {
+        const completed = markdown.slice(frozenText.length, boundary);
+        const newBlocks = parseMarkdownToBlocks(completed);
+        if (newBlocks.length > 0) {
+          blocks = [...blocks, ...newBlocks];
+        }
+        frozenText = markdown.slice(0, boundary);
+      }
+
+      return { blocks, pending: markdown.slice(boundary) };
+    },
+  };
+}
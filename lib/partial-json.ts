@@ -0,0 +1,62 @@
+/**
+ * Parses a JSON document that may be cut off mid-stream (e.g. tool call
+ * arguments arriving as deltas). Open strings, objects and arrays are closed;
+ * an incomplete trailing key or value is dropped. Returns undefined if no
+ * prefix of the text forms a valid document.
+ */
+export function parsePartialJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to completion
+  }
+
+  const closers: string[] = [];
+  // Prefixes ending at a container boundary, with the closers they need
+  const cutPoints: { end: number; suffix: string }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      closers.push(char === "{" ? "}" : "]");
+      cutPoints.push({ end: i + 1, suffix: closers.slice().reverse().join("") });
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+    } else if (char === ",") {
+      cutPoints.push({ end: i, suffix: closers.slice().reverse().join("") });
+    }
+  }
+
+  const suffix = closers.slice().reverse().join("");
+  // A dangling escape can't be completed, so drop it before closing the string
+  const completed = inString ? (escaped ? text.slice(0, -1) : text) + '"' : text;
+  const candidates = [completed + suffix];
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    candidates.push(text.slice(0, cutPoints[i].end) + cutPoints[i].suffix);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try a shorter prefix
+    }
+  }
+  return undefined;
+}
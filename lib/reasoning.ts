@@ -0,0 +1,34 @@
+import { registerSSEEventHandler } from "./sse-events";
+import { object, string } from "./validation";
+import type { SSEReasoningDeltaEvent } from "./types";
+
+declare module "./sse-events" {
+  interface SSEEventMap {
+    reasoning_delta: SSEReasoningDeltaEvent["data"];
+  }
+}
+
+declare module "./streaming" {
+  interface StreamCallbacks {
+    onReasoning?: (text: string) => void;
+  }
+}
+
+// Streams the model's reasoning summary ahead of the answer
+registerSSEEventHandler("reasoning_delta", {
+  schema: object({ text: string }),
+  handle: (data, callbacks) => callbacks.onReasoning?.(data.text),
+});
+
+/**
+ * Formats how long the model reasoned, e.g. "Thought for 12s".
+ */
+export function formatReasoningDuration(durationMs: number | null | undefined): string {
+  if (durationMs == null) return "Thought";
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 1) return "Thought for a moment";
+  if (seconds < 60) return `Thought for ${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `Thought for ${minutes}m ${rest}s` : `Thought for ${minutes}m`;
+}
@@ -0,0 +1,59 @@
+import type { Session } from "./types";
+
+// Shorter queries match too much message content to be useful
+export const MIN_CONTENT_SEARCH_LENGTH = 2;
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Splits a search query into lowercase terms.
+ */
+export function getSearchTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+/**
+ * Whether every term of the query appears in the session's title.
+ */
+export function matchesTitle(session: Session, query: string): boolean {
+  const title = (session.title || "New Chat").toLowerCase();
+  return getSearchTerms(query).every((term) => title.includes(term));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Splits text into parts, marking the ones that match a query term
+ * (case-insensitive) so they can be highlighted.
+ */
+export function highlightTerms(text: string, query: string): HighlightPart[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  // Longest first, so a term that contains another wins
+  const pattern = terms
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const parts: HighlightPart[] = [];
+  let lastIndex = 0;
+  for (const found of text.matchAll(new RegExp(pattern, "gi"))) {
+    const index = found.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, index), match: false });
+    }
+    parts.push({ text: found[0], match: true });
+    lastIndex = index + found[0].length;
+  }
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), match: false });
+  }
+  return parts;
+}
@@ -62,6 +62,32 @@ export function captureError(error: Error, context?: Record<string, unknown>) {
   });
 }
 
+// Keep reported payloads small; they are for diagnosis, not replay
+const MAX_REPORTED_PAYLOAD_LENGTH = 2000;
+
+/**
+ * Report a backend payload that failed runtime validation (see lib/validation.ts)
+ */
+export function reportInvalidPayload(kind: string, issue: string, payload: unknown) {
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(payload) ?? String(payload);
+  } catch {
+    serialized = String(payload);
+  }
+
+  Sentry.captureMessage(`Invalid ${kind} payload`, {
+    level: "warning",
+    tags: { payloadKind: kind },
+    extra: {
+      issue,
+      payload: serialized.slice(0, MAX_REPORTED_PAYLOAD_LENGTH),
+    },
+    // Group by the failing field; indices and received values vary
+    fingerprint: ["invalid-payload", kind, issue.split(":")[0].replace(/\[\d+\]/g, "[]")],
+  });
+}
+
 /**
  * Create a custom span for tracing operations
  * Uses OpenTelemetry under the hood via Sentry SDK
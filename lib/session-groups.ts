@@ -0,0 +1,88 @@
+import type { Folder, Session } from "./types";
+
+export type SessionGroupId = "pinned" | "today" | "yesterday" | "previous-7-days" | "older";
+
+export interface SessionGroup {
+  id: SessionGroupId;
+  label: string;
+  sessions: Session[];
+}
+
+const GROUP_LABELS: Record<SessionGroupId, string> = {
+  pinned: "Pinned",
+  today: "Today",
+  yesterday: "Yesterday",
+  "previous-7-days": "Previous 7 days",
+  older: "Older",
+};
+
+const GROUP_ORDER: SessionGroupId[] = ["pinned", "today", "yesterday", "previous-7-days", "older"];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function getDateGroup(dateString: string, now: Date): SessionGroupId {
+  const date = new Date(dateString);
+  // Compare calendar days, not 24-hour periods
+  const dateDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const nowDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const diffDays = Math.round((nowDay.getTime() - dateDay.getTime()) / DAY_MS);
+
+  if (diffDays <= 0) return "today";
+  if (diffDays === 1) return "yesterday";
+  if (diffDays <= 7) return "previous-7-days";
+  return "older";
+}
+
+/**
+ * Groups sessions for the sidebar: pinned sessions first, the rest by when
+ * they were last updated. Keeps the given order within each group and
+ * leaves out empty groups.
+ */
+export function groupSessions(sessions: Session[], now = new Date()): SessionGroup[] {
+  const byGroup = new Map<SessionGroupId, Session[]>();
+  for (const session of sessions) {
+    const id = session.pinned ? "pinned" : getDateGroup(session.updated_at, now);
+    const group = byGroup.get(id);
+    if (group) {
+      group.push(session);
+    } else {
+      byGroup.set(id, [session]);
+    }
+  }
+
+  return GROUP_ORDER.filter((id) => byGroup.has(id)).map((id) => ({
+    id,
+    label: GROUP_LABELS[id],
+    sessions: byGroup.get(id)!,
+  }));
+}
+
+export interface FolderGroup {
+  folder: Folder;
+  sessions: Session[];
+}
+
+/**
+ * Splits sessions into the folders they belong to (in folder order) and the
+ * ones outside any folder. Sessions pointing at an unknown folder, e.g. one
+ * just deleted, count as outside.
+ */
+export function groupSessionsByFolder(
+  sessions: Session[],
+  folders: Folder[]
+): { folders: FolderGroup[]; unfiled: Session[] } {
+  const byFolder = new Map<string, Session[]>(folders.map((folder) => [folder.id, []]));
+  const unfiled: Session[] = [];
+  for (const session of sessions) {
+    const folderSessions = session.folder_id ? byFolder.get(session.folder_id) : undefined;
+    if (folderSessions) {
+      folderSessions.push(session);
+    } else {
+      unfiled.push(session);
+    }
+  }
+  return {
+    folders: folders.map((folder) => ({ folder, sessions: byFolder.get(folder.id)! })),
+    unfiled,
+  };
+}
@@ -0,0 +1,189 @@
+import * as Sentry from "@sentry/nextjs";
+import type { StreamCallbacks } from "./streaming";
+import { createAPIError } from "./errors";
+import type {
+  SSEContentEvent,
+  SSEContentBlockEvent,
+  SSEToolCallStartEvent,
+  SSEToolCallDeltaEvent,
+  SSEToolCallEndEvent,
+  SSECitationEvent,
+  SSEUsageEvent,
+  SSEDoneEvent,
+  SSEErrorEvent,
+  SSEProgressEvent,
+  ProgressPhase,
+} from "./types";
+import {
+  type Check,
+  string,
+  number,
+  record,
+  index,
+  optional,
+  object,
+  contentBlock,
+} from "./validation";
+
+/**
+ * Payload types of SSE events, keyed by event name. Modules that add events
+ * extend this interface via declaration merging:
+ *
+ *   declare module "@/lib/sse-events" {
+ *     interface SSEEventMap {
+ *       my_event: { value: string };
+ *     }
+ *   }
+ */
+export interface SSEEventMap {
+  content: SSEContentEvent["data"];
+  content_block: SSEContentBlockEvent["data"];
+  tool_call_start: SSEToolCallStartEvent["data"];
+  tool_call_delta: SSEToolCallDeltaEvent["data"];
+  tool_call_end: SSEToolCallEndEvent["data"];
+  citation: SSECitationEvent["data"];
+  usage: SSEUsageEvent["data"];
+  done: SSEDoneEvent["data"];
+  error: SSEErrorEvent["data"];
+  progress: SSEProgressEvent["data"];
+}
+
+export type SSEEventType = keyof SSEEventMap;
+
+export interface SSEEventHandler<K extends SSEEventType> {
+  // Validates the event's data before it is handled; typed so a schema can't
+  // drift from the payload type
+  schema: Check<SSEEventMap[K]>;
+  handle: (data: SSEEventMap[K], callbacks: StreamCallbacks) => void;
+  // The event ends the response, so the stream is not resumed after it
+  terminal?: boolean;
+}
+
+// Handlers are stored untyped; registerSSEEventHandler enforces the pairing
+export interface RegisteredSSEEventHandler {
+  schema: Check;
+  handle: (data: unknown, callbacks: StreamCallbacks) => void;
+  terminal?: boolean;
+}
+
+const handlers = new Map<string, RegisteredSSEEventHandler>();
+
+/**
+ * Registers the handler for an SSE event type, replacing any existing one.
+ * Returns a function that removes the handler again.
+ */
+export function registerSSEEventHandler<K extends SSEEventType>(
+  type: K,
+  handler: SSEEventHandler<K>
+): () => void {
+  const registered = handler as unknown as RegisteredSSEEventHandler;
+  handlers.set(type, registered);
+  return () => {
+    if (handlers.get(type) === registered) {
+      handlers.delete(type);
+    }
+  };
+}
+
+export function getSSEEventHandler(type: string): RegisteredSSEEventHandler | undefined {
+  return handlers.get(type);
+}
+
+// Built-in events
+
+registerSSEEventHandler("content", {
+  schema: object({ text: string }),
+  handle: (data, callbacks) => callbacks.onContent?.(data.text),
+});
+
+registerSSEEventHandler("content_block", {
+  schema: object({ index, block: contentBlock }),
+  handle: (data, callbacks) => callbacks.onContentBlock?.(data.index, data.block),
+});
+
+registerSSEEventHandler("tool_call_start", {
+  schema: object({ id: string, tool: string }),
+  handle: (data, callbacks) => callbacks.onToolCallStart?.(data.id, data.tool),
+});
+
+registerSSEEventHandler("tool_call_delta", {
+  schema: object({ id: string, delta: string }),
+  handle: (data, callbacks) => callbacks.onToolCallDelta?.(data.id, data.delta),
+});
+
+registerSSEEventHandler("tool_call_end", {
+  schema: object({
+    id: string,
+    tool: string,
+    output: optional(record),
+    error: optional(string),
+  }),
+  handle: (data, callbacks) =>
+    callbacks.onToolCallEnd?.(
+      data.id,
+      data.tool,
+      data.output ?? undefined,
+      data.error ?? undefined
+    ),
+});
+
+registerSSEEventHandler("citation", {
+  schema: object({ source: string, source_ref: string, reference: string }),
+  handle: (data, callbacks) =>
+    callbacks.onCitation?.(data.source, data.source_ref, data.reference),
+});
+
+registerSSEEventHandler("usage", {
+  schema: object({
+    input_tokens: number,
+    output_tokens: number,
+    total_tokens: number,
+    cost_usd: number,
+  }),
+  handle: (data, callbacks) => {
+    Sentry.metrics.gauge("chat.streaming.tokens.total", data.total_tokens);
+    Sentry.metrics.gauge("chat.streaming.cost_usd", data.cost_usd);
+    callbacks.onUsage?.(data.input_tokens, data.output_tokens, data.total_tokens, data.cost_usd);
+  },
+});
+
+registerSSEEventHandler("done", {
+  schema: object({ message_id: string }),
+  handle: (data, callbacks) => callbacks.onDone?.(data.message_id),
+  terminal: true,
+});
+
+registerSSEEventHandler("error", {
+  schema: object({
+    code: string,
+    message: string,
+    request_id: optional(string),
+    retry_after_ms: optional(number),
+  }),
+  handle: (data, callbacks) =>
+    callbacks.onError?.(
+      createAPIError(data.message, {
+        code: data.code,
+        requestId: data.request_id ?? undefined,
+        retryAfterMs: data.retry_after_ms ?? undefined,
+      })
+    ),
+  terminal: true,
+});
+
+registerSSEEventHandler("progress", {
+  // Phase is left open so new backend phases fall back to their raw name
+  schema: object({
+    phase: string as Check<ProgressPhase>,
+    started_at: number,
+    tool_name: optional(string),
+    iteration: optional(number),
+  }),
+  handle: (data, callbacks) =>
+    callbacks.onProgress?.(
+      data.phase,
+      data.started_at,
+      data.tool_name ?? undefined,
+      data.iteration ?? undefined
+    ),
+});
@@ -0,0 +1,156 @@
+/**
+ * Incremental Server-Sent Events parser following the WHATWG
+ * "event stream interpretation" rules:
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ *
+ * Chunks can be split anywhere (including between CR and LF); the parser
+ * buffers partial lines and only dispatches an event on a blank line.
+ */
+
+export interface SSEMessage {
+  /** Event type, "message" when no `event:` field was given */
+  event: string;
+  /** Data lines joined with "\n" */
+  data: string;
+  /** Last event id at dispatch time (persists across events, per spec) */
+  id: string;
+}
+
+export interface SSEParserHandlers {
+  onEvent: (message: SSEMessage) => void;
+  onRetry?: (ms: number) => void;
+  onComment?: (comment: string) => void;
+}
+
+export interface SSEParser {
+  feed: (chunk: string) => void;
+  reset: () => void;
+}
+
+const LF = "\n";
+const CR = "\r";
+
+export function createSSEParser(handlers: SSEParserHandlers): SSEParser {
+  let buffer = "";
+  let isFirstChunk = true;
+  // A chunk ending in CR may be followed by LF in the next chunk
+  let skipLeadingLF = false;
+
+  let eventType = "";
+  let data = "";
+  let lastEventId = "";
+
+  const dispatch = () => {
+    if (data === "") {
+      eventType = "";
+      return;
+    }
+
+    // Remove the trailing LF added after the last data line
+    const message: SSEMessage = {
+      event: eventType || "message",
+      data: data.endsWith(LF) ? data.slice(0, -1) : data,
+      id: lastEventId,
+    };
+    eventType = "";
+    data = "";
+    handlers.onEvent(message);
+  };
+
+  const processField = (field: string, value: string) => {
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        data += value + LF;
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          lastEventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          handlers.onRetry?.(parseInt(value, 10));
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  };
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+
+    if (line.startsWith(":")) {
+      handlers.onComment?.(line.slice(1).replace(/^ /, ""));
+      return;
+    }
+
+    const colonIndex = line.indexOf(":");
+    if (colonIndex === -1) {
+      processField(line, "");
+      return;
+    }
+
+    const field = line.slice(0, colonIndex);
+    let value = line.slice(colonIndex + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+    processField(field, value);
+  };
+
+  const feed = (chunk: string) => {
+    if (!chunk) return;
+
+    if (isFirstChunk) {
+      isFirstChunk = false;
+      if (chunk.startsWith("\uFEFF")) {
+        chunk = chunk.slice(1);
+      }
+    }
+
+    if (skipLeadingLF && chunk.startsWith(LF)) {
+      chunk = chunk.slice(1);
+    }
+    skipLeadingLF = false;
+
+    buffer += chunk;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== CR && char !== LF) continue;
+
+      processLine(buffer.slice(start, i));
+
+      if (char === CR) {
+        if (i + 1 === buffer.length) {
+          skipLeadingLF = true;
+        } else if (buffer[i + 1] === LF) {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    buffer = buffer.slice(start);
+  };
+
+  const reset = () => {
+    buffer = "";
+    isFirstChunk = true;
+    skipLeadingLF = false;
+    eventType = "";
+    data = "";
+    lastEventId = "";
+  };
+
+  return { feed, reset };
+}
@@ -1,60 +1,29 @@
 import * as Sentry from "@sentry/nextjs";
 import type {
-  SSEEvent,
-  SSEContentEvent,
-  SSEContentBlockEvent,
-  SSEToolCallStartEvent,
-  SSEToolCallEndEvent,
-  SSECitationEvent,
-  SSEUsageEvent,
-  SSEDoneEvent,
-  SSEErrorEvent,
-  SSEProgressEvent,
   SendMessageRequest,
   ProgressPhase,
   ContentBlock,
 } from "./types";
 import { env } from "./env";
-import { addStreamingBreadcrumb, captureError, getTracingHeaders } from "./sentry";
-
-function getCsrfToken(): string {
-  // Read CSRF token from cookie (double-submit pattern)
-  // Note: Token is stored without encoding, so read it directly
-  if (typeof document === "undefined") {
-    return "";
-  }
-  const match = document.cookie.match(/(?:^|;\s*)csrf_token=([^;]*)/);
-  return match ? match[1] : "";
-}
-
-async function refreshToken(): Promise<boolean> {
-  try {
-    const response = await fetch(`${env.BACKEND_URL}/v1/auth/refresh`, {
-      method: "POST",
-      credentials: "include",
-      headers: {
-        "X-CSRF-Token": getCsrfToken(),
-        ...getTracingHeaders(),
-      },
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      if (data.csrf_token && typeof document !== "undefined") {
-        document.cookie = `csrf_token=${data.csrf_token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
-      }
-      return true;
-    }
-    return false;
-  } catch {
-    return false;
-  }
-}
+import { createSSEParser, type SSEMessage } from "./sse-parser";
+import { getSSEEventHandler, type RegisteredSSEEventHandler } from "./sse-events";
+import {
+  addStreamingBreadcrumb,
+  captureError,
+  reportInvalidPayload,
+} from "./sentry";
+import type { APIRequestError } from "./errors";
+import { authFetch, errorFromResponse, waitForRetry } from "./transport";
 
+/**
+ * Callbacks invoked by SSE event handlers. Modules that register their own
+ * events (see lib/sse-events.ts) add callbacks by augmenting this interface.
+ */
 export interface StreamCallbacks {
   onContent?: (text: string) => void;
   onContentBlock?: (index: number, block: ContentBlock) => void;
   onToolCallStart?: (id: string, tool: string) => void;
+  onToolCallDelta?: (id: string, delta: string) => void;
   onToolCallEnd?: (
     id: string,
     tool: string,
@@ -69,120 +38,260 @@ export interface StreamCallbacks {
     costUsd: number
   ) => void;
   onDone?: (messageId: string) => void;
-  onError?: (code: string, message: string) => void;
+  onError?: (error: APIRequestError) => void;
   onProgress?: (phase: ProgressPhase, startedAt: number, toolName?: string, iteration?: number) => void;
+  onReconnect?: (attempt: number, lastEventId: string) => void;
+  // Called once a reconnect succeeds and the stream resumes
+  onReconnected?: () => void;
+  onStall?: (idleMs: number) => void;
+  onStallRecovered?: () => void;
+}
+
+export interface StreamOptions {
+  // Idle time without any SSE activity (including keep-alive comments)
+  // before the stream is reported as stalled
+  stallTimeoutMs?: number;
+  // Lets the caller drop the connection to resume a stalled stream
+  resumer?: StreamResumer;
 }
 
 /**
- * Parses a single SSE event line
+ * Drops a stream's current connection (or the request still waiting for one)
+ * so it resumes from the last received event on a new one, as if the
+ * connection had been lost.
+ */
+export interface StreamResumer {
+  resume(): void;
+  // Whether `resume` has been called
+  readonly requested: boolean;
+  // Registers how to drop the current connection (null while none is open)
+  attach(dropConnection: (() => void) | null): void;
+}
+
+interface ParsedSSEEvent {
+  type: string;
+  data: unknown;
+  handler: RegisteredSSEEventHandler;
+}
+
+/**
+ * Parses a dispatched SSE message into an event for its registered handler
  * Backend format: {"type":"content","data":{"text":"Hello"}}
- * We extract the inner `data` field to match our SSEEvent types
+ * We extract the inner `data` field and validate it against the handler's
+ * schema; invalid events are reported and dropped
  */
-function parseSSEEvent(eventType: string, data: string): SSEEvent | null {
+function parseSSEEvent(message: SSEMessage): ParsedSSEEvent | null {
+  const eventType = message.event;
+  const handler = getSSEEventHandler(eventType);
+  if (!handler) {
+    console.warn(`Unknown SSE event type: ${eventType}`);
+    return null;
+  }
+
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(data);
-    // Backend wraps data in { type, data } structure - extract the inner data
-    const eventData = parsed.data;
-
-    switch (eventType) {
-      case "content":
-        return { type: "content", data: eventData } as SSEContentEvent;
-      case "content_block":
-        return { type: "content_block", data: eventData } as SSEContentBlockEvent;
-      case "tool_call_start":
-        return { type: "tool_call_start", data: eventData } as SSEToolCallStartEvent;
-      case "tool_call_end":
-        return { type: "tool_call_end", data: eventData } as SSEToolCallEndEvent;
-      case "citation":
-        return { type: "citation", data: eventData } as SSECitationEvent;
-      case "usage":
-        return { type: "usage", data: eventData } as SSEUsageEvent;
-      case "done":
-        return { type: "done", data: eventData } as SSEDoneEvent;
-      case "error":
-        return { type: "error", data: eventData } as SSEErrorEvent;
-      case "progress":
-        return { type: "progress", data: eventData } as SSEProgressEvent;
-      default:
-        console.warn(`Unknown SSE event type: ${eventType}`);
-        return null;
-    }
+    parsed = JSON.parse(message.data);
   } catch (error) {
     console.error("Failed to parse SSE event:", error);
     return null;
   }
+
+  // Backend wraps data in { type, data } structure - extract the inner data
+  const eventData = typeof parsed === "object" && parsed !== null
+    ? (parsed as { data?: unknown }).data
+    : undefined;
+  const issue = handler.schema(eventData, "data");
+  if (issue) {
+    console.warn(`Dropping invalid SSE ${eventType} event: ${issue}`);
+    Sentry.metrics.count("chat.streaming.invalid_event.count", 1, { attributes: { type: eventType } });
+    reportInvalidPayload(`sse.${eventType}`, issue, eventData);
+    return null;
+  }
+  return { type: eventType, data: eventData, handler };
 }
 
 /**
- * Handles an SSE event by calling the appropriate callback
+ * Handles an SSE event by passing it to its registered handler
  */
-function handleSSEEvent(event: SSEEvent, callbacks: StreamCallbacks): void {
-  switch (event.type) {
-    case "content":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "content" } });
-      callbacks.onContent?.(event.data.text);
-      break;
-    case "content_block":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "content_block" } });
-      callbacks.onContentBlock?.(event.data.index, event.data.block);
-      break;
-    case "tool_call_start":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "tool_call_start" } });
-      callbacks.onToolCallStart?.(event.data.id, event.data.tool);
-      break;
-    case "tool_call_end":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "tool_call_end" } });
-      callbacks.onToolCallEnd?.(
-        event.data.id,
-        event.data.tool,
-        event.data.output,
-        event.data.error
-      );
-      break;
-    case "citation":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "citation" } });
-      callbacks.onCitation?.(
-        event.data.source,
-        event.data.source_ref,
-        event.data.reference
-      );
-      break;
-    case "usage":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "usage" } });
-      Sentry.metrics.gauge("chat.streaming.tokens.total", event.data.total_tokens);
-      Sentry.metrics.gauge("chat.streaming.cost_usd", event.data.cost_usd);
-      callbacks.onUsage?.(
-        event.data.input_tokens,
-        event.data.output_tokens,
-        event.data.total_tokens,
-        event.data.cost_usd
-      );
-      break;
-    case "done":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "done" } });
-      callbacks.onDone?.(event.data.message_id);
-      break;
-    case "error":
-      Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: "error" } });
-      callbacks.onError?.(event.data.code, event.data.message);
-      break;
-    case "progress":
-      console.log("[SSE] Progress event:", event.data.phase, event.data.started_at, event.data.tool_name, event.data.iteration);
-      callbacks.onProgress?.(event.data.phase, event.data.started_at, event.data.tool_name, event.data.iteration);
-      break;
+function handleSSEEvent(event: ParsedSSEEvent, callbacks: StreamCallbacks): void {
+  Sentry.metrics.count("chat.streaming.event.count", 1, { attributes: { type: event.type } });
+  event.handler.handle(event.data, callbacks);
+}
+
+// Reconnection settings for streams that drop before a terminal event
+const DEFAULT_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * Tracks resumption state across the lifetime of a single streamed response,
+ * including any reconnections.
+ */
+interface StreamState {
+  lastEventId: string | null;
+  retryMs: number;
+  seenEventIds: Set<string>;
+  finished: boolean;
+  // Cancels the connection being read, if any
+  cancelRead: (() => void) | null;
+}
+
+/**
+ * Watches a stream for inactivity. Fires `onStall` after `timeoutMs` without
+ * activity and keeps firing every `timeoutMs` while the stream stays idle.
+ */
+function createStallWatchdog(timeoutMs: number, onStall: (idleMs: number) => void) {
+  let lastActivity = Date.now();
+  let stalled = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const arm = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      stalled = true;
+      onStall(Date.now() - lastActivity);
+      arm();
+    }, timeoutMs);
+  };
+
+  arm();
+
+  return {
+    /** Records activity; returns true if the stream was stalled until now */
+    touch(): boolean {
+      const wasStalled = stalled;
+      lastActivity = Date.now();
+      stalled = false;
+      arm();
+      return wasStalled;
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
+
+/**
+ * Performs a streaming request, handling HTTP errors and a missing body
+ */
+async function openStream(
+  makeRequest: () => Promise<Response>,
+  sessionId: string
+): Promise<Response> {
+  const response = await makeRequest();
+
+  if (!response.ok) {
+    const error = await errorFromResponse(response);
+    addStreamingBreadcrumb("error", sessionId, error.message);
+    captureError(error, {
+      sessionId,
+      status: response.status,
+      code: error.code,
+      requestId: error.requestId,
+    });
+    throw error;
+  }
+
+  if (!response.body) {
+    throw new Error("Response body is null");
+  }
+
+  return response;
+}
+
+/**
+ * Reads SSE events from a response body until the connection closes.
+ * Events already delivered on a previous connection (by event id) are skipped,
+ * so a resumed stream never duplicates content, tool calls or citations.
+ * Returns true if any new event was dispatched.
+ */
+async function readStream(
+  response: Response,
+  state: StreamState,
+  callbacks: StreamCallbacks,
+  onActivity: () => void
+): Promise<boolean> {
+  const reader = response.body!.getReader();
+  state.cancelRead = () => void reader.cancel();
+  const decoder = new TextDecoder();
+  let receivedEvents = false;
+  let previousId = "";
+
+  const parser = createSSEParser({
+    onEvent: (message) => {
+      // The spec carries the last event id forward to events without an
+      // `id:` field, so only a changed id identifies a replayable event
+      const carriesId = message.id !== "" && message.id !== previousId;
+      if (message.id !== "") {
+        state.lastEventId = message.id;
+      }
+      previousId = message.id;
+
+      if (carriesId) {
+        if (state.seenEventIds.has(message.id)) {
+          return;
+        }
+        state.seenEventIds.add(message.id);
+      }
+
+      if (!message.data) {
+        return;
+      }
+
+      const event = parseSSEEvent(message);
+      if (event) {
+        receivedEvents = true;
+        if (event.handler.terminal) {
+          state.finished = true;
+        }
+        handleSSEEvent(event, callbacks);
+      }
+    },
+    onRetry: (ms) => {
+      state.retryMs = ms;
+    },
+  });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        parser.feed(decoder.decode());
+        break;
+      }
+
+      // Any bytes count as activity, including keep-alive comments
+      onActivity();
+
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    state.cancelRead = null;
+    reader.releaseLock();
   }
+
+  return receivedEvents;
 }
 
 /**
- * Sends a message and streams the response using SSE
+ * Sends a message and streams the response using SSE.
+ * If the connection drops before a `done` or `error` event, the stream is
+ * resumed from the last received event id with exponential backoff.
+ * A watchdog reports the stream as stalled via `onStall` when no activity
+ * is seen for `stallTimeoutMs`; it keeps waiting until aborted, or until
+ * `options.resumer` drops the connection to resume right away.
  */
 export async function streamMessage(
   sessionId: string,
   request: SendMessageRequest,
   callbacks: StreamCallbacks,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  options: StreamOptions = {}
 ): Promise<void> {
   const url = `${env.BACKEND_URL}/v1/sessions/${sessionId}/messages`;
+  const resumeUrl = `${env.BACKEND_URL}/v1/sessions/${sessionId}/messages/resume`;
 
   return Sentry.startSpan(
     {
@@ -193,116 +302,196 @@ export async function streamMessage(
     async () => {
       addStreamingBreadcrumb("start", sessionId);
 
-      const makeRequest = () =>
-        fetch(url, {
+      const state: StreamState = {
+        lastEventId: null,
+        retryMs: DEFAULT_RETRY_MS,
+        seenEventIds: new Set(),
+        finished: false,
+        cancelRead: null,
+      };
+      let resumeRequested = false;
+      // Aborts the request or backoff wait in progress when a resume is requested
+      let attemptController: AbortController | null = null;
+      options.resumer?.attach(() => {
+        resumeRequested = true;
+        if (state.cancelRead) {
+          state.cancelRead();
+        } else {
+          attemptController?.abort();
+        }
+      });
+
+      // Runs a connection step that a requested resume cuts short, returning
+      // null if it did
+      const interruptible = async <T>(
+        step: (stepSignal: AbortSignal) => Promise<T>
+      ): Promise<T | null> => {
+        attemptController = new AbortController();
+        const stepSignal = signal
+          ? AbortSignal.any([signal, attemptController.signal])
+          : attemptController.signal;
+        try {
+          return await step(stepSignal);
+        } catch (error) {
+          if ((error as Error).name === "AbortError" && resumeRequested && !signal?.aborted) {
+            return null;
+          }
+          throw error;
+        } finally {
+          attemptController = null;
+        }
+      };
+
+      // Reconnection has its own backoff below, so the transport doesn't retry
+      const makeRequest = (requestSignal: AbortSignal) =>
+        authFetch(url, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
             Accept: "text/event-stream",
-            "X-CSRF-Token": getCsrfToken(),
-            ...getTracingHeaders(),
           },
           body: JSON.stringify(request),
-          credentials: "include",
-          signal,
+          signal: requestSignal,
+          retry: false,
         });
 
-      let response = await makeRequest();
+      const makeResumeRequest = (requestSignal: AbortSignal) =>
+        authFetch(resumeUrl, {
+          method: "GET",
+          headers: {
+            Accept: "text/event-stream",
+            "Last-Event-ID": state.lastEventId ?? "",
+          },
+          signal: requestSignal,
+          retry: false,
+        });
 
-      // Handle 401 by attempting token refresh
-      if (response.status === 401) {
-        const refreshed = await refreshToken();
-        if (refreshed) {
-          response = await makeRequest();
-        } else {
-          // Redirect to login if refresh failed
-          if (
-            typeof window !== "undefined" &&
-            !window.location.pathname.startsWith("/login")
-          ) {
-            window.location.href = "/login";
-          }
-          throw new Error("Session expired");
+      const watchdog = createStallWatchdog(
+        options.stallTimeoutMs ?? env.STREAM_STALL_TIMEOUT_MS,
+        (idleMs) => {
+          addStreamingBreadcrumb("stall", sessionId);
+          Sentry.metrics.count("chat.streaming.stall.count", 1);
+          callbacks.onStall?.(idleMs);
         }
-      }
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorMessage = `Request failed with status ${response.status}`;
-        try {
-          const errorJson = JSON.parse(errorText);
-          errorMessage = errorJson.error || errorMessage;
-        } catch {
-          // Use default error message
+      );
+      const onActivity = () => {
+        if (watchdog.touch()) {
+          addStreamingBreadcrumb("stall_recovered", sessionId);
+          callbacks.onStallRecovered?.();
         }
-        addStreamingBreadcrumb("error", sessionId, errorMessage);
-        captureError(new Error(errorMessage), {
-          sessionId,
-          status: response.status,
-        });
-        throw new Error(errorMessage);
-      }
-
-      if (!response.body) {
-        throw new Error("Response body is null");
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let currentEventType = "";
+      };
 
       try {
-        while (true) {
-          const { done, value } = await reader.read();
+        // Null when a resume was requested before the response started
+        let response: Response | null = await interruptible((stepSignal) =>
+          openStream(() => makeRequest(stepSignal), sessionId)
+        );
+        let attempt = 0;
 
-          if (done) {
-            addStreamingBreadcrumb("complete", sessionId);
-            break;
-          }
+        while (true) {
+          let streamError: Error | null = null;
 
-          buffer += decoder.decode(value, { stream: true });
+          if (response) {
+            onActivity();
+            try {
+              const receivedEvents = await readStream(response, state, callbacks, onActivity);
+              if (receivedEvents) {
+                attempt = 0;
+              }
+            } catch (error) {
+              // Don't capture or retry abort errors (user cancelled)
+              if ((error as Error).name === "AbortError") {
+                throw error;
+              }
+              streamError = error as Error;
+            }
 
-          // Process complete lines
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || ""; // Keep incomplete line in buffer
+            if (state.finished) {
+              addStreamingBreadcrumb("complete", sessionId);
+              return;
+            }
 
-          for (const line of lines) {
-            const trimmedLine = line.trim();
+            // Without an event id there is nothing to resume from; a clean close
+            // is treated as completion, matching servers that don't send ids.
+            // A requested resume replays the response from the start instead.
+            if (state.lastEventId === null && !resumeRequested) {
+              if (streamError) {
+                addStreamingBreadcrumb("error", sessionId, streamError.message);
+                captureError(streamError, { sessionId });
+                throw streamError;
+              }
+              addStreamingBreadcrumb("complete", sessionId);
+              return;
+            }
+          }
 
-            if (!trimmedLine) {
-              // Empty line indicates end of event
-              currentEventType = "";
-              continue;
+          // Reconnect to the resume endpoint with exponential backoff
+          response = null;
+          while (!response) {
+            attempt++;
+            if (attempt > MAX_RECONNECT_ATTEMPTS) {
+              const error = streamError ?? new Error("Connection lost while streaming response");
+              addStreamingBreadcrumb("error", sessionId, error.message);
+              captureError(error, { sessionId, lastEventId: state.lastEventId });
+              throw error;
             }
 
-            if (trimmedLine.startsWith("event:")) {
-              currentEventType = trimmedLine.slice(6).trim();
-            } else if (trimmedLine.startsWith("data:")) {
-              const data = trimmedLine.slice(5).trim();
-              if (currentEventType && data) {
-                const event = parseSSEEvent(currentEventType, data);
-                if (event) {
-                  handleSSEEvent(event, callbacks);
-                }
+            // A requested resume reconnects right away
+            const delay = resumeRequested
+              ? 0
+              : Math.min(state.retryMs * 2 ** (attempt - 1), MAX_RETRY_MS);
+            resumeRequested = false;
+            addStreamingBreadcrumb("reconnect", sessionId);
+            Sentry.metrics.count("chat.streaming.reconnect.count", 1);
+            callbacks.onReconnect?.(attempt, state.lastEventId ?? "");
+            const waited = await interruptible((stepSignal) => waitForRetry(delay, stepSignal));
+            if (waited === null) continue;
+
+            try {
+              response = await interruptible((stepSignal) =>
+                openStream(() => makeResumeRequest(stepSignal), sessionId)
+              );
+              if (response) {
+                callbacks.onReconnected?.();
               }
+            } catch (error) {
+              // Only network failures are retried; HTTP errors (e.g. the
+              // resumable stream has expired) are final
+              if (!(error instanceof TypeError)) {
+                throw error;
+              }
+              streamError = error;
             }
           }
         }
-      } catch (error) {
-        // Don't capture abort errors (user cancelled)
-        if ((error as Error).name !== "AbortError") {
-          addStreamingBreadcrumb("error", sessionId, (error as Error).message);
-          captureError(error as Error, { sessionId });
-        }
-        throw error;
       } finally {
-        reader.releaseLock();
+        options.resumer?.attach(null);
+        watchdog.stop();
       }
     }
   );
 }
 
+/**
+ * Creates a StreamResumer to pass to `streamMessage`
+ */
+export function createStreamResumer(): StreamResumer {
+  let dropConnection: (() => void) | null = null;
+  let requested = false;
+  return {
+    resume() {
+      requested = true;
+      dropConnection?.();
+    },
+    get requested() {
+      return requested;
+    },
+    attach(drop) {
+      dropConnection = drop;
+    },
+  };
+}
+
 /**
  * Creates an AbortController for cancelling streams
  */
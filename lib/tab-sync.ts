@@ -0,0 +1,62 @@
+/**
+ * Messages exchanged between open tabs of the app over a BroadcastChannel.
+ * A tab never receives its own messages.
+ */
+export type TabSyncMessage =
+  // Another tab is refreshing the session; wait for it instead of refreshing too
+  | { type: "refresh_started" }
+  | { type: "refresh_finished"; ok: boolean }
+  | { type: "logged_in" }
+  | { type: "logged_out" }
+  // A session was created, renamed or deleted
+  | { type: "sessions_changed"; sessionId?: string };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+const CHANNEL_NAME = "badlands-tab-sync";
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<TabSyncListener>();
+
+function getChannel(): BroadcastChannel | null {
+  // Not available during SSR (or in very old browsers); sync is best effort
+  if (typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      for (const listener of listeners) {
+        listener(event.data);
+      }
+    };
+  }
+  return channel;
+}
+
+/**
+ * Sends a message to every other open tab.
+ */
+export function broadcast(message: TabSyncMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Listens for messages from other tabs. Returns an unsubscribe function.
+ */
+export function subscribeToTabs(listener: TabSyncListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Closes the channel; used by tests to reset between cases.
+ */
+export function closeTabSync(): void {
+  channel?.close();
+  channel = null;
+  listeners.clear();
+}
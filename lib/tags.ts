@@ -0,0 +1,34 @@
+import type { Session, TagColor } from "./types";
+
+export const TAG_COLORS: TagColor[] = [
+  "gray",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+  "pink",
+];
+
+// Tailwind classes for a tag's dot and chip (spelled out so they aren't purged)
+export const TAG_COLOR_CLASSES: Record<TagColor, { dot: string; chip: string }> = {
+  gray: { dot: "bg-gray-400", chip: "border-gray-400/50 bg-gray-400/15" },
+  red: { dot: "bg-red-500", chip: "border-red-500/50 bg-red-500/15" },
+  orange: { dot: "bg-orange-500", chip: "border-orange-500/50 bg-orange-500/15" },
+  yellow: { dot: "bg-yellow-500", chip: "border-yellow-500/50 bg-yellow-500/15" },
+  green: { dot: "bg-green-500", chip: "border-green-500/50 bg-green-500/15" },
+  blue: { dot: "bg-blue-500", chip: "border-blue-500/50 bg-blue-500/15" },
+  purple: { dot: "bg-purple-500", chip: "border-purple-500/50 bg-purple-500/15" },
+  pink: { dot: "bg-pink-500", chip: "border-pink-500/50 bg-pink-500/15" },
+};
+
+/**
+ * Keeps the sessions that carry every selected tag. No selection keeps all.
+ */
+export function filterSessionsByTags(sessions: Session[], tagIds: string[]): Session[] {
+  if (tagIds.length === 0) {
+    return sessions;
+  }
+  return sessions.filter((session) => tagIds.every((id) => session.tag_ids?.includes(id)));
+}
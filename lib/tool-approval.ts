@@ -0,0 +1,26 @@
+import { registerSSEEventHandler } from "./sse-events";
+import { object, optional, record, string } from "./validation";
+import type { SSEToolApprovalRequiredEvent } from "./types";
+
+declare module "./sse-events" {
+  interface SSEEventMap {
+    tool_approval_required: SSEToolApprovalRequiredEvent["data"];
+  }
+}
+
+declare module "./streaming" {
+  interface StreamCallbacks {
+    onToolApprovalRequired?: (
+      id: string,
+      tool: string,
+      input?: Record<string, unknown>
+    ) => void;
+  }
+}
+
+// Tools that need consent pause the run until a decision is posted back
+registerSSEEventHandler("tool_approval_required", {
+  schema: object({ id: string, tool: string, input: optional(record) }),
+  handle: (data, callbacks) =>
+    callbacks.onToolApprovalRequired?.(data.id, data.tool, data.input ?? undefined),
+});
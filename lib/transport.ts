@@ -0,0 +1,254 @@
+import { env } from "./env";
+import { createAPIError, SessionExpiredError, type APIRequestError } from "./errors";
+import { getTracingHeaders } from "./sentry";
+import { broadcast, subscribeToTabs } from "./tab-sync";
+import type { APIError } from "./types";
+
+/**
+ * Authenticated transport shared by the API client and streaming. Handles
+ * cookies, the CSRF header, tracing headers, session refresh on 401 and
+ * retries with backoff.
+ */
+
+// Retry settings for idempotent requests
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Statuses that mean the request was not processed and may be retried
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// Longest wait for another tab's refresh before refreshing here
+const REMOTE_REFRESH_TIMEOUT_MS = 10000;
+
+const CSRF_COOKIE_MAX_AGE = 60 * 60 * 24 * 7;
+
+export function getCsrfToken(): string {
+  // Read CSRF token from cookie (double-submit pattern)
+  // Note: Token is stored without encoding, so read it directly
+  if (typeof document === "undefined") {
+    return "";
+  }
+  const match = document.cookie.match(/(?:^|;\s*)csrf_token=([^;]*)/);
+  return match ? match[1] : "";
+}
+
+export function setCsrfToken(token: string): void {
+  // Note: Don't encode the token - it's already URL-safe base64 and the
+  // backend expects the raw value
+  if (typeof document === "undefined") return;
+  document.cookie = `csrf_token=${token}; path=/; max-age=${CSRF_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
+
+let refreshPromise: Promise<boolean> | null = null;
+
+// Refresh running in another tab, if any (see syncRefreshAcrossTabs)
+let remoteRefresh: Promise<boolean> | null = null;
+let finishRemoteRefresh: ((ok: boolean) => void) | null = null;
+
+async function doRefresh(): Promise<boolean> {
+  try {
+    const response = await fetch(`${env.BACKEND_URL}/v1/auth/refresh`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "X-CSRF-Token": getCsrfToken(),
+        ...getTracingHeaders(),
+      },
+    });
+
+    if (response.ok) {
+      // Update CSRF token from response for cross-origin setups
+      const data = await response.json();
+      if (data.csrf_token) {
+        setCsrfToken(data.csrf_token);
+      }
+      return true;
+    }
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Refreshes the session. Concurrent callers share a single refresh request,
+ * so a burst of 401s triggers only one refresh; if another tab is already
+ * refreshing, its result is used instead (the cookies are shared).
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      if (remoteRefresh && (await remoteRefresh)) {
+        return true;
+      }
+      broadcast({ type: "refresh_started" });
+      const ok = await doRefresh();
+      broadcast({ type: "refresh_finished", ok });
+      return ok;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Follows session refreshes in other tabs so this tab waits for them rather
+ * than racing them with its own. Returns a function that stops listening.
+ */
+export function syncRefreshAcrossTabs(): () => void {
+  return subscribeToTabs((message) => {
+    if (message.type === "refresh_started" && !remoteRefresh) {
+      remoteRefresh = new Promise<boolean>((resolve) => {
+        // A tab closed mid-refresh never reports back
+        const timer = setTimeout(() => resolve(false), REMOTE_REFRESH_TIMEOUT_MS);
+        finishRemoteRefresh = (ok) => {
+          clearTimeout(timer);
+          resolve(ok);
+        };
+      }).finally(() => {
+        remoteRefresh = null;
+        finishRemoteRefresh = null;
+      });
+    } else if (message.type === "refresh_finished") {
+      finishRemoteRefresh?.(message.ok);
+    }
+  });
+}
+
+function redirectToLogin(): void {
+  // Redirect to login if refresh failed (but not if already on login)
+  if (typeof window !== "undefined" && !window.location.pathname.startsWith("/login")) {
+    window.location.href = "/login";
+  }
+}
+
+/**
+ * Waits before a retry, rejecting early if the request is aborted.
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into ms.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export interface TransportOptions extends RequestInit {
+  // Retry network failures and 429/502/503/504 responses. Defaults to true
+  // for idempotent methods only, since other requests may have been applied.
+  retry?: boolean;
+  maxRetries?: number;
+}
+
+/**
+ * Sends an authenticated request to the backend and returns the raw response;
+ * callers handle non-ok statuses. On 401 the session is refreshed once and the
+ * request replayed; if the refresh fails the user is sent to login and a
+ * SessionExpiredError is thrown.
+ */
+export async function authFetch(url: string, options: TransportOptions = {}): Promise<Response> {
+  const { retry, maxRetries = DEFAULT_MAX_RETRIES, ...init } = options;
+  const method = (init.method || "GET").toUpperCase();
+  const canRetry = retry ?? IDEMPOTENT_METHODS.has(method);
+
+  // Headers are rebuilt per attempt, since a refresh rotates the CSRF token
+  const send = () =>
+    fetch(url, {
+      ...init,
+      credentials: "include",
+      headers: {
+        "X-CSRF-Token": getCsrfToken(),
+        ...getTracingHeaders(),
+        ...init.headers,
+      },
+    });
+
+  let attempt = 0;
+  let refreshed = false;
+
+  while (true) {
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      // Network failures surface as TypeError; aborts are never retried
+      if (!(error instanceof TypeError) || !canRetry || attempt >= maxRetries) {
+        throw error;
+      }
+      attempt++;
+      await waitForRetry(backoffDelay(attempt), init.signal);
+      continue;
+    }
+
+    if (response.status === 401 && !refreshed) {
+      refreshed = true;
+      if (await refreshSession()) {
+        continue;
+      }
+      redirectToLogin();
+      throw new SessionExpiredError();
+    }
+
+    if (RETRYABLE_STATUSES.has(response.status) && canRetry && attempt < maxRetries) {
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      // A longer wait than we'd retry after is left to the caller, which can
+      // show it (see RateLimitError.retryAfterMs); retrying early earns another 429
+      if (retryAfter === null || retryAfter <= MAX_RETRY_DELAY_MS) {
+        attempt++;
+        await waitForRetry(retryAfter ?? backoffDelay(attempt), init.signal);
+        continue;
+      }
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Builds a typed error from a non-ok response. The body is read as JSON when
+ * possible; proxies may return HTML or an empty body instead.
+ */
+export async function errorFromResponse(response: Response): Promise<APIRequestError> {
+  let body: Partial<APIError> = {};
+  try {
+    body = JSON.parse(await response.text()) ?? {};
+  } catch {
+    // Use the status-based defaults
+  }
+
+  return createAPIError(body.error || `Request failed with status ${response.status}`, {
+    status: response.status,
+    code: body.code,
+    requestId: body.request_id ?? response.headers.get("X-Request-ID") ?? undefined,
+    retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+  });
+}
+
+function backoffDelay(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
@@ -24,6 +24,14 @@ export interface Session {
   updated_at: string;
   message_count?: number;
   last_message?: string;
+  // Pinned sessions are listed first, above the date groups
+  pinned?: boolean;
+  folder_id?: string | null;
+  tag_ids?: string[];
+  // Archived sessions are hidden from the session list but kept
+  archived?: boolean;
+  // Set while the session is in "Recently deleted", awaiting permanent deletion
+  deleted_at?: string | null;
 }
 
 export interface SessionsResponse {
@@ -37,6 +45,45 @@ export interface SessionWithMessages extends Session {
   messages: Message[];
 }
 
+// User-defined organization of sessions: each session sits in at most one
+// folder and can carry any number of tags
+export interface Folder {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface FoldersResponse {
+  folders: Folder[];
+}
+
+export type TagColor = "gray" | "red" | "orange" | "yellow" | "green" | "blue" | "purple" | "pink";
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+export interface TagsResponse {
+  tags: Tag[];
+}
+
+// A message whose content matched a session search
+export interface SessionSearchMatch {
+  session_id: string;
+  session_title?: string;
+  message_id: string;
+  role: "user" | "assistant";
+  // Excerpt of the message around the matched terms
+  snippet: string;
+  created_at: string;
+}
+
+export interface SessionSearchResponse {
+  results: SessionSearchMatch[];
+}
+
 // Content block types for structured message rendering
 export type ContentBlock =
   | TextBlock
@@ -180,6 +227,13 @@ export interface Message {
   tool_calls?: ToolCall[];
   citations?: Citation[];
   response_time_ms?: number;
+  usage?: TokenUsage;
+  // Model's reasoning summary, shown collapsed above the answer
+  reasoning?: string;
+  reasoning_duration_ms?: number;
+  // The message this one follows; messages sharing a parent are alternative branches.
+  // Null for the first message, absent on messages that predate branching
+  parent_id?: string | null;
 }
 
 export interface MessagesResponse {
@@ -193,7 +247,14 @@ export interface ToolCall {
   input?: Record<string, unknown>;
   output?: Record<string, unknown>;
   error?: string;
-  status: "pending" | "completed" | "error";
+  status: "pending" | "awaiting_approval" | "completed" | "error";
+}
+
+// Decision on a tool call that requires the user's approval
+export interface ToolApprovalRequest {
+  decision: "approve" | "deny";
+  // Replacement arguments when the user edited them before approving
+  input?: Record<string, unknown>;
 }
 
 // Citation types
@@ -203,6 +264,14 @@ export interface Citation {
   reference: string;
 }
 
+// Token usage for a single response
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
 // Budget types
 export interface BudgetResponse {
   has_budget: boolean;
@@ -231,13 +300,19 @@ export interface SSEToolCallStartEvent {
   data: { id: string; tool: string };
 }
 
+// Partial tool call arguments (a fragment of the JSON-encoded input)
+export interface SSEToolCallDeltaEvent {
+  type: "tool_call_delta";
+  data: { id: string; delta: string };
+}
+
 export interface SSEToolCallEndEvent {
   type: "tool_call_end";
   data: {
     id: string;
     tool: string;
-    output?: Record<string, unknown>;
-    error?: string;
+    output?: Record<string, unknown> | null;
+    error?: string | null;
   };
 }
 
@@ -248,12 +323,7 @@ export interface SSECitationEvent {
 
 export interface SSEUsageEvent {
   type: "usage";
-  data: {
-    input_tokens: number;
-    output_tokens: number;
-    total_tokens: number;
-    cost_usd: number;
-  };
+  data: TokenUsage;
 }
 
 export interface SSEDoneEvent {
@@ -263,7 +333,12 @@ export interface SSEDoneEvent {
 
 export interface SSEErrorEvent {
   type: "error";
-  data: { code: string; message: string };
+  data: {
+    code: string;
+    message: string;
+    request_id?: string | null;
+    retry_after_ms?: number | null;
+  };
 }
 
 // Progress phases
@@ -281,11 +356,22 @@ export interface SSEProgressEvent {
   data: {
     phase: ProgressPhase;
     started_at: number; // Unix timestamp in milliseconds
-    tool_name?: string; // Tool name for calling_tool phase
-    iteration?: number; // Iteration number for iteration phase (1-based)
+    tool_name?: string | null; // Tool name for calling_tool phase
+    iteration?: number | null; // Iteration number for iteration phase (1-based)
   };
 }
 
+// The run is paused until the user approves or denies the tool call
+export interface SSEToolApprovalRequiredEvent {
+  type: "tool_approval_required";
+  data: { id: string; tool: string; input?: Record<string, unknown> | null };
+}
+
+export interface SSEReasoningDeltaEvent {
+  type: "reasoning_delta";
+  data: { text: string };
+}
+
 export interface SSEContentBlockEvent {
   type: "content_block";
   data: {
@@ -309,18 +395,49 @@ export type SSEEvent =
   | SSEContentEvent
   | SSEContentBlockEvent
   | SSEToolCallStartEvent
+  | SSEToolCallDeltaEvent
   | SSEToolCallEndEvent
   | SSECitationEvent
   | SSEUsageEvent
   | SSEDoneEvent
   | SSEErrorEvent
-  | SSEProgressEvent;
+  | SSEProgressEvent
+  | SSEReasoningDeltaEvent
+  | SSEToolApprovalRequiredEvent;
 
 // Request types
 export interface CreateSessionRequest {
   mode: "chat" | "explorer";
 }
 
+export interface UpdateSessionRequest {
+  title?: string;
+  pinned?: boolean;
+  // null moves the session out of its folder
+  folder_id?: string | null;
+  tag_ids?: string[];
+  archived?: boolean;
+}
+
+export interface FolderRequest {
+  name: string;
+}
+
+export interface CreateTagRequest {
+  name: string;
+  color: TagColor;
+}
+
+export type UpdateTagRequest = Partial<CreateTagRequest>;
+
+// One action applied to several sessions in a single request
+export type BulkSessionRequest = { session_ids: string[] } & (
+  | { action: "delete" }
+  | { action: "archive" }
+  | { action: "restore" }
+  | { action: "move"; folder_id: string | null }
+);
+
 export interface SendMessageRequest {
   content: string;
   model?: string;
@@ -328,12 +445,16 @@ export interface SendMessageRequest {
   temperature?: number;
   tools?: string[];
   chain?: string;
+  // The message to follow, branching the conversation when it already has a reply.
+  // Defaults to the session's latest message
+  parent_id?: string | null;
 }
 
 // API Error
 export interface APIError {
   error: string;
   code?: string;
+  request_id?: string;
 }
 
 // Status types (backend info)
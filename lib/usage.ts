@@ -0,0 +1,48 @@
+import type { Message, TokenUsage } from "./types";
+
+/**
+ * Sums token usage across messages. Returns null when no message has usage.
+ */
+export function sumUsage(messages: Message[]): TokenUsage | null {
+  const usages = messages
+    .map((message) => message.usage)
+    .filter((usage): usage is TokenUsage => !!usage);
+
+  if (usages.length === 0) {
+    return null;
+  }
+
+  return usages.reduce((total, usage) => ({
+    input_tokens: total.input_tokens + usage.input_tokens,
+    output_tokens: total.output_tokens + usage.output_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+    cost_usd: total.cost_usd + usage.cost_usd,
+  }));
+}
+
+/**
+ * Format a token count compactly (e.g. 950, 1.2k, 3.4M).
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) {
+    return String(tokens);
+  }
+  if (tokens < 1_000_000) {
+    const k = tokens / 1000;
+    return `${k < 10 ? k.toFixed(1) : Math.round(k)}k`;
+  }
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Format a USD cost, keeping sub-cent amounts readable.
+ */
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) {
+    return "$0.00";
+  }
+  if (costUsd < 0.01) {
+    return `$${costUsd.toFixed(4)}`;
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
@@ -0,0 +1,159 @@
+import type { ContentBlock } from "./types";
+
+/**
+ * Runtime validation for payloads received from the backend. The types in
+ * `lib/types.ts` are compile-time only, so anything arriving over the wire is
+ * checked here before it reaches the store or the renderers.
+ */
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issue: string };
+
+// A check returns a description of the first problem found, or null if valid.
+// `T` is the type a passing value has, so checks can be matched against the
+// types they guard at compile time
+export type Check<T = unknown> = ((value: unknown, path: string) => string | null) & {
+  readonly __checks?: T;
+};
+
+// The type a check accepts
+export type Checked<C> = C extends Check<infer T> ? T : never;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export const string: Check<string> = (value, path) =>
+  typeof value === "string" ? null : `${path}: expected string, got ${describe(value)}`;
+
+export const number: Check<number> = (value, path) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? null
+    : `${path}: expected number, got ${describe(value)}`;
+
+export const boolean: Check<boolean> = (value, path) =>
+  typeof value === "boolean" ? null : `${path}: expected boolean, got ${describe(value)}`;
+
+export const record: Check<Record<string, unknown>> = (value, path) =>
+  isRecord(value) ? null : `${path}: expected object, got ${describe(value)}`;
+
+export const index: Check<number> = (value, path) =>
+  Number.isInteger(value) && (value as number) >= 0
+    ? null
+    : `${path}: expected non-negative integer, got ${JSON.stringify(value)}`;
+
+export function oneOf<const T extends readonly unknown[]>(...options: T): Check<T[number]> {
+  return (value, path) =>
+    options.includes(value)
+      ? null
+      : `${path}: expected one of ${options.join(", ")}, got ${JSON.stringify(value)}`;
+}
+
+// The backend serializes missing optional fields as null, so the value may be
+// either
+export function optional<T>(check: Check<T>): Check<T | null | undefined> {
+  return (value, path) => (value === undefined || value === null ? null : check(value, path));
+}
+
+export function arrayOf<T>(check: Check<T>): Check<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return `${path}: expected array, got ${describe(value)}`;
+    for (let i = 0; i < value.length; i++) {
+      const issue = check(value[i], `${path}[${i}]`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+export function object<S extends Record<string, Check<unknown>>>(
+  shape: S
+): Check<{ [K in keyof S]: Checked<S[K]> }> {
+  return (value, path) => {
+    if (!isRecord(value)) return `${path}: expected object, got ${describe(value)}`;
+    for (const [key, check] of Object.entries(shape)) {
+      const issue = check(value[key], `${path}.${key}`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+// Content blocks
+
+const CHART_SERIES_CHECKS: Record<string, Check> = {
+  bar: arrayOf(object({ name: string, data: arrayOf(number) })),
+  line: arrayOf(object({ name: string, data: arrayOf(number) })),
+  area: arrayOf(object({ name: string, data: arrayOf(number) })),
+  pie: arrayOf(object({ name: string, value: number })),
+  scatter: arrayOf(object({ name: string, data: arrayOf(object({ x: number, y: number })) })),
+};
+
+const axis = optional(object({ label: optional(string), data: optional(arrayOf(string)) }));
+
+/**
+ * Chart data is validated against the series shape for its chart type.
+ */
+const chartBlock: Check = (value, path) => {
+  const base = object({
+    chart_type: oneOf(...Object.keys(CHART_SERIES_CHECKS)),
+    chart_title: optional(string),
+    chart_data: object({ title: optional(string), x_axis: axis, y_axis: axis }),
+  })(value, path);
+  if (base) return base;
+
+  const block = value as { chart_type: string; chart_data: Record<string, unknown> };
+  return optional(CHART_SERIES_CHECKS[block.chart_type])(
+    block.chart_data.series,
+    `${path}.chart_data.series`
+  );
+};
+
+const BLOCK_CHECKS: Record<ContentBlock["type"], Check> = {
+  text: object({ text: string }),
+  code: object({ code: string, language: optional(string) }),
+  heading: object({ text: string, level: oneOf(1, 2, 3, 4, 5, 6) }),
+  list: object({ items: arrayOf(string), ordered: boolean }),
+  blockquote: object({ text: string }),
+  table: object({ headers: arrayOf(string), rows: arrayOf(arrayOf(string)) }),
+  hr: object({}),
+  math: object({ math: string, inline: optional(boolean) }),
+  tasklist: object({ tasks: arrayOf(object({ text: string, checked: boolean })) }),
+  callout: object({
+    callout_type: oneOf("NOTE", "WARNING", "TIP", "IMPORTANT", "CAUTION"),
+    text: string,
+  }),
+  image: object({ image_url: string, image_alt: optional(string) }),
+  // Nested blocks are validated individually when rendered, so one bad
+  // child doesn't take down the whole section
+  details: object({ text: string, children: optional(arrayOf(record)) }),
+  chart: chartBlock,
+};
+
+export const contentBlock: Check<ContentBlock> = (value, path) => {
+  if (!isRecord(value)) return `${path}: expected object, got ${describe(value)}`;
+  const check = Object.prototype.hasOwnProperty.call(BLOCK_CHECKS, value.type as string)
+    ? BLOCK_CHECKS[value.type as ContentBlock["type"]]
+    : undefined;
+  if (!check) return `${path}.type: unknown block type ${JSON.stringify(value.type)}`;
+  return check(value, path);
+};
+
+/**
+ * Runs a check against a value, returning it typed if valid.
+ */
+export function validate<T>(check: Check<T>, value: unknown, path: string): ValidationResult<T> {
+  const issue = check(value, path);
+  return issue ? { ok: false, issue } : { ok: true, value: value as T };
+}
+
+/**
+ * Validates a content block received from the backend (streamed or stored).
+ */
+export function validateContentBlock(value: unknown): ValidationResult<ContentBlock> {
+  return validate<ContentBlock>(contentBlock, value, "block");
+}
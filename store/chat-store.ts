@@ -1,165 +1,430 @@
 import { create } from "zustand";
-import type { ToolCall, Citation, ProgressPhase, ContentBlock } from "@/lib/types";
+import { parsePartialJSON } from "@/lib/partial-json";
+import type {
+  ToolCall,
+  Citation,
+  ProgressPhase,
+  ContentBlock,
+  SendMessageRequest,
+  TokenUsage,
+  ToolApprovalRequest,
+} from "@/lib/types";
+import type { APIRequestError } from "@/lib/errors";
+import type { StreamResumer } from "@/lib/streaming";
 
-interface ChatStore {
-  // Streaming state
+/**
+ * Streaming state for a single session. Each session streams independently,
+ * so a response keeps generating in the background while another chat is open.
+ */
+export interface SessionStream {
   isStreaming: boolean;
   streamingContent: string;
   streamingContentBlocks: Map<number, ContentBlock>;
   streamingToolCalls: Map<string, ToolCall>;
+  // Raw argument JSON received so far, by tool call id
+  streamingToolInputs: Map<string, string>;
   streamingCitations: Citation[];
   abortController: AbortController | null;
+  // Request that started the stream (used to retry a stalled response)
+  request: SendMessageRequest | null;
+  // Resumes the stream on a new connection (used to retry a stalled response)
+  resumer: StreamResumer | null;
+  // Reconnect attempt in progress after the connection dropped
+  reconnectAttempt: number | null;
+  // Set when no stream activity has been seen for the stall timeout
+  isStalled: boolean;
+  // Token usage reported for this response
+  usage: TokenUsage | null;
+  // Reasoning summary streamed before the answer
+  reasoning: string;
+  reasoningStartedAt: number | null;
+  // Set once the answer starts (or the stream ends) after reasoning
+  reasoningDurationMs: number | null;
 
   // Progress state
   currentPhase: ProgressPhase | null;
   phaseStartedAt: number | null;
   currentToolName: string | null;
   currentIteration: number | null;
+}
+
+/**
+ * A stream that ended with an error. Kept after the stream is reset so the
+ * chat can offer a recovery action (e.g. retrying once a rate limit lifts).
+ */
+export interface StreamFailure {
+  error: APIRequestError;
+  // Request that failed, for retrying
+  request: SendMessageRequest | null;
+  failedAt: number;
+}
+
+interface ChatStore {
+  // Streaming state keyed by session id
+  streams: Record<string, SessionStream>;
+  // Last stream failure keyed by session id, cleared when a new stream starts
+  failures: Record<string, StreamFailure>;
 
   // Actions
-  startStreaming: () => AbortController;
-  appendContent: (text: string) => void;
-  addContentBlock: (index: number, block: ContentBlock) => void;
-  addToolCallStart: (id: string, tool: string) => void;
+  startStreaming: (
+    sessionId: string,
+    request?: SendMessageRequest,
+    resumer?: StreamResumer
+  ) => AbortController;
+  appendContent: (sessionId: string, text: string) => void;
+  appendReasoning: (sessionId: string, text: string) => void;
+  addContentBlock: (sessionId: string, index: number, block: ContentBlock) => void;
+  addToolCallStart: (sessionId: string, id: string, tool: string) => void;
+  appendToolCallInput: (sessionId: string, id: string, delta: string) => void;
+  requestToolApproval: (
+    sessionId: string,
+    id: string,
+    tool: string,
+    input?: Record<string, unknown>
+  ) => void;
+  resolveToolApproval: (sessionId: string, id: string, request: ToolApprovalRequest) => void;
   updateToolCallEnd: (
+    sessionId: string,
     id: string,
     tool: string,
     output?: Record<string, unknown>,
     error?: string
   ) => void;
-  addCitation: (citation: Citation) => void;
-  stopStreaming: () => void;
-  resetStreaming: () => void;
+  addCitation: (sessionId: string, citation: Citation) => void;
+  stopStreaming: (sessionId: string) => void;
+  resetStreaming: (sessionId: string, controller?: AbortController) => void;
+  clearStreamedResponse: (sessionId: string) => void;
+  setStalled: (sessionId: string, isStalled: boolean) => void;
+  setReconnecting: (sessionId: string, attempt: number | null) => void;
+  setUsage: (sessionId: string, usage: TokenUsage) => void;
+  setFailure: (sessionId: string, failure: StreamFailure) => void;
+  clearFailure: (sessionId: string) => void;
 
   // Progress actions
-  setProgress: (phase: ProgressPhase, startedAt: number, toolName?: string, iteration?: number) => void;
+  setProgress: (
+    sessionId: string,
+    phase: ProgressPhase,
+    startedAt: number,
+    toolName?: string,
+    iteration?: number
+  ) => void;
 
   // Getters
-  getToolCalls: () => ToolCall[];
-  getContentBlocks: () => ContentBlock[];
+  getStream: (sessionId: string) => SessionStream;
+  getToolCalls: (sessionId: string) => ToolCall[];
+  getContentBlocks: (sessionId: string) => ContentBlock[];
+  getStreamingSessionIds: () => string[];
 }
 
-export const useChatStore = create<ChatStore>((set, get) => ({
-  isStreaming: false,
-  streamingContent: "",
-  streamingContentBlocks: new Map(),
-  streamingToolCalls: new Map(),
-  streamingCitations: [],
-  abortController: null,
-  currentPhase: null,
-  phaseStartedAt: null,
-  currentToolName: null,
-  currentIteration: null,
-
-  startStreaming: () => {
-    const controller = new AbortController();
-    set({
-      isStreaming: true,
-      streamingContent: "",
-      streamingContentBlocks: new Map(),
-      streamingToolCalls: new Map(),
-      streamingCitations: [],
-      abortController: controller,
-      currentPhase: null,
-      phaseStartedAt: null,
-      currentToolName: null,
-      currentIteration: null,
-    });
-    return controller;
-  },
+function createSessionStream(): SessionStream {
+  return {
+    isStreaming: false,
+    streamingContent: "",
+    streamingContentBlocks: new Map(),
+    streamingToolCalls: new Map(),
+    streamingToolInputs: new Map(),
+    streamingCitations: [],
+    abortController: null,
+    request: null,
+    resumer: null,
+    reconnectAttempt: null,
+    isStalled: false,
+    usage: null,
+    reasoning: "",
+    reasoningStartedAt: null,
+    reasoningDurationMs: null,
+    currentPhase: null,
+    phaseStartedAt: null,
+    currentToolName: null,
+    currentIteration: null,
+  };
+}
+
+// Shared fallback for sessions without a stream (stable reference for selectors)
+export const IDLE_STREAM: SessionStream = Object.freeze(createSessionStream());
+
+export function getStreamToolCalls(stream: SessionStream): ToolCall[] {
+  return Array.from(stream.streamingToolCalls.values());
+}
+
+export function getStreamContentBlocks(stream: SessionStream): ContentBlock[] {
+  // Sort blocks by index and return as array
+  const sortedEntries = Array.from(stream.streamingContentBlocks.entries()).sort(
+    ([a], [b]) => a - b
+  );
+  return sortedEntries.map(([, block]) => block);
+}
 
-  appendContent: (text) => {
-    set((state) => ({
-      streamingContent: state.streamingContent + text,
-    }));
-  },
+/**
+ * Ends the reasoning phase of a stream, if it has one still running.
+ */
+function endReasoning(stream: SessionStream): Partial<SessionStream> {
+  if (stream.reasoningStartedAt === null || stream.reasoningDurationMs !== null) {
+    return {};
+  }
+  return { reasoningDurationMs: Date.now() - stream.reasoningStartedAt };
+}
 
-  addContentBlock: (index, block) => {
+export const useChatStore = create<ChatStore>((set, get) => {
+  /**
+   * Applies an update to a session's stream. Updates for sessions that are no
+   * longer streaming (e.g. late events after a reset) are ignored.
+   */
+  const updateStream = (
+    sessionId: string,
+    update: (stream: SessionStream) => Partial<SessionStream>
+  ) => {
     set((state) => {
-      const newBlocks = new Map(state.streamingContentBlocks);
-      newBlocks.set(index, block);
-      return { streamingContentBlocks: newBlocks };
+      const stream = state.streams[sessionId];
+      if (!stream) return state;
+      return {
+        streams: {
+          ...state.streams,
+          [sessionId]: { ...stream, ...update(stream) },
+        },
+      };
     });
-  },
+  };
 
-  addToolCallStart: (id, tool) => {
-    set((state) => {
-      const newToolCalls = new Map(state.streamingToolCalls);
-      newToolCalls.set(id, {
-        id,
-        tool,
-        status: "pending",
+  const withoutFailure = (failures: Record<string, StreamFailure>, sessionId: string) => {
+    if (!(sessionId in failures)) return failures;
+    const rest = { ...failures };
+    delete rest[sessionId];
+    return rest;
+  };
+
+  return {
+    streams: {},
+    failures: {},
+
+    startStreaming: (sessionId, request, resumer) => {
+      const controller = new AbortController();
+      set((state) => ({
+        streams: {
+          ...state.streams,
+          [sessionId]: {
+            ...createSessionStream(),
+            isStreaming: true,
+            abortController: controller,
+            request: request ?? null,
+            resumer: resumer ?? null,
+          },
+        },
+        failures: withoutFailure(state.failures, sessionId),
+      }));
+      return controller;
+    },
+
+    appendContent: (sessionId, text) => {
+      updateStream(sessionId, (stream) => ({
+        ...endReasoning(stream),
+        streamingContent: stream.streamingContent + text,
+      }));
+    },
+
+    appendReasoning: (sessionId, text) => {
+      updateStream(sessionId, (stream) => ({
+        reasoning: stream.reasoning + text,
+        reasoningStartedAt: stream.reasoningStartedAt ?? Date.now(),
+      }));
+    },
+
+    addContentBlock: (sessionId, index, block) => {
+      updateStream(sessionId, (stream) => {
+        const newBlocks = new Map(stream.streamingContentBlocks);
+        newBlocks.set(index, block);
+        return { ...endReasoning(stream), streamingContentBlocks: newBlocks };
       });
-      return { streamingToolCalls: newToolCalls };
-    });
-  },
+    },
 
-  updateToolCallEnd: (id, _tool, output, error) => {
-    set((state) => {
-      const newToolCalls = new Map(state.streamingToolCalls);
-      const existing = newToolCalls.get(id);
-      if (existing) {
+    addToolCallStart: (sessionId, id, tool) => {
+      updateStream(sessionId, (stream) => {
+        const newToolCalls = new Map(stream.streamingToolCalls);
+        newToolCalls.set(id, {
+          id,
+          tool,
+          status: "pending",
+        });
+        return { streamingToolCalls: newToolCalls };
+      });
+    },
+
+    appendToolCallInput: (sessionId, id, delta) => {
+      updateStream(sessionId, (stream) => {
+        const existing = stream.streamingToolCalls.get(id);
+        if (!existing) return {};
+
+        const newInputs = new Map(stream.streamingToolInputs);
+        const inputText = (newInputs.get(id) ?? "") + delta;
+        newInputs.set(id, inputText);
+
+        // Keep the last complete-enough input while a key or value is cut off
+        const parsed = parsePartialJSON(inputText);
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+          return { streamingToolInputs: newInputs };
+        }
+
+        const newToolCalls = new Map(stream.streamingToolCalls);
+        newToolCalls.set(id, { ...existing, input: parsed as Record<string, unknown> });
+        return { streamingToolCalls: newToolCalls, streamingToolInputs: newInputs };
+      });
+    },
+
+    requestToolApproval: (sessionId, id, tool, input) => {
+      updateStream(sessionId, (stream) => {
+        const newToolCalls = new Map(stream.streamingToolCalls);
+        const existing = newToolCalls.get(id);
         newToolCalls.set(id, {
           ...existing,
-          output,
-          error,
-          status: error ? "error" : "completed",
+          id,
+          tool,
+          input: input ?? existing?.input,
+          status: "awaiting_approval",
         });
+        return { streamingToolCalls: newToolCalls };
+      });
+    },
+
+    resolveToolApproval: (sessionId, id, request) => {
+      updateStream(sessionId, (stream) => {
+        const newToolCalls = new Map(stream.streamingToolCalls);
+        const existing = newToolCalls.get(id);
+        if (existing) {
+          newToolCalls.set(
+            id,
+            request.decision === "approve"
+              ? { ...existing, input: request.input ?? existing.input, status: "pending" }
+              : { ...existing, status: "error", error: "Denied by user" }
+          );
+        }
+        return { streamingToolCalls: newToolCalls };
+      });
+    },
+
+    updateToolCallEnd: (sessionId, id, _tool, output, error) => {
+      updateStream(sessionId, (stream) => {
+        const newToolCalls = new Map(stream.streamingToolCalls);
+        const existing = newToolCalls.get(id);
+        if (existing) {
+          newToolCalls.set(id, {
+            ...existing,
+            output,
+            error,
+            status: error ? "error" : "completed",
+          });
+        }
+        return { streamingToolCalls: newToolCalls };
+      });
+    },
+
+    addCitation: (sessionId, citation) => {
+      updateStream(sessionId, (stream) => ({
+        streamingCitations: [...stream.streamingCitations, citation],
+      }));
+    },
+
+    stopStreaming: (sessionId) => {
+      const stream = get().streams[sessionId];
+      if (stream?.abortController) {
+        stream.abortController.abort();
       }
-      return { streamingToolCalls: newToolCalls };
-    });
-  },
-
-  addCitation: (citation) => {
-    set((state) => ({
-      streamingCitations: [...state.streamingCitations, citation],
-    }));
-  },
-
-  stopStreaming: () => {
-    const { abortController } = get();
-    if (abortController) {
-      abortController.abort();
-    }
-    set({
-      isStreaming: false,
-      abortController: null,
-    });
-  },
-
-  resetStreaming: () => {
-    set({
-      isStreaming: false,
-      streamingContent: "",
-      streamingContentBlocks: new Map(),
-      streamingToolCalls: new Map(),
-      streamingCitations: [],
-      abortController: null,
-      currentPhase: null,
-      phaseStartedAt: null,
-      currentToolName: null,
-      currentIteration: null,
-    });
-  },
-
-  setProgress: (phase, startedAt, toolName, iteration) => {
-    console.log("[ChatStore] setProgress:", phase, startedAt, toolName, iteration);
-    set({
-      currentPhase: phase,
-      phaseStartedAt: startedAt,
-      currentToolName: toolName ?? null,
-      currentIteration: iteration ?? null,
-    });
-  },
-
-  getToolCalls: () => {
-    return Array.from(get().streamingToolCalls.values());
-  },
-
-  getContentBlocks: () => {
-    const blocks = get().streamingContentBlocks;
-    // Sort blocks by index and return as array
-    const sortedEntries = Array.from(blocks.entries()).sort(([a], [b]) => a - b);
-    return sortedEntries.map(([, block]) => block);
-  },
-}));
+      updateStream(sessionId, (stream) => ({
+        ...endReasoning(stream),
+        isStreaming: false,
+        abortController: null,
+      }));
+    },
+
+    resetStreaming: (sessionId, controller) => {
+      set((state) => {
+        const stream = state.streams[sessionId];
+        if (!stream) return state;
+        // A stream replaced by a newer one (e.g. a retry) must not reset it
+        if (controller && stream.abortController && stream.abortController !== controller) {
+          return state;
+        }
+        const streams = { ...state.streams };
+        delete streams[sessionId];
+        return { streams };
+      });
+    },
+
+    // Drops what has streamed so far while the stream keeps running (e.g.
+    // before a resumed response is replayed from the start)
+    clearStreamedResponse: (sessionId) => {
+      updateStream(sessionId, (stream) => ({
+        ...createSessionStream(),
+        isStreaming: stream.isStreaming,
+        abortController: stream.abortController,
+        request: stream.request,
+        resumer: stream.resumer,
+        reconnectAttempt: stream.reconnectAttempt,
+        isStalled: stream.isStalled,
+      }));
+    },
+
+    setStalled: (sessionId, isStalled) => {
+      updateStream(sessionId, () => ({ isStalled }));
+    },
+
+    setReconnecting: (sessionId, attempt) => {
+      updateStream(sessionId, () => ({ reconnectAttempt: attempt }));
+    },
+
+    setUsage: (sessionId, usage) => {
+      // The backend reports totals for the whole response, so replace
+      updateStream(sessionId, () => ({ usage }));
+    },
+
+    setFailure: (sessionId, failure) => {
+      set((state) => ({ failures: { ...state.failures, [sessionId]: failure } }));
+    },
+
+    clearFailure: (sessionId) => {
+      set((state) => ({ failures: withoutFailure(state.failures, sessionId) }));
+    },
+
+    setProgress: (sessionId, phase, startedAt, toolName, iteration) => {
+      updateStream(sessionId, () => ({
+        currentPhase: phase,
+        phaseStartedAt: startedAt,
+        currentToolName: toolName ?? null,
+        currentIteration: iteration ?? null,
+      }));
+    },
+
+    getStream: (sessionId) => {
+      return get().streams[sessionId] ?? IDLE_STREAM;
+    },
+
+    getToolCalls: (sessionId) => {
+      return getStreamToolCalls(get().getStream(sessionId));
+    },
+
+    getContentBlocks: (sessionId) => {
+      return getStreamContentBlocks(get().getStream(sessionId));
+    },
+
+    getStreamingSessionIds: () => {
+      return Object.entries(get().streams)
+        .filter(([, stream]) => stream.isStreaming)
+        .map(([sessionId]) => sessionId);
+    },
+  };
+});
+
+/**
+ * Subscribes to the stream for a session (or the idle stream if none).
+ */
+export function useSessionStream(sessionId: string | null): SessionStream {
+  return useChatStore((state) =>
+    sessionId ? state.streams[sessionId] ?? IDLE_STREAM : IDLE_STREAM
+  );
+}
+
+/**
+ * Subscribes to the last stream failure for a session, if any.
+ */
+export function useStreamFailure(sessionId: string | null): StreamFailure | null {
+  return useChatStore((state) => (sessionId ? state.failures[sessionId] ?? null : null));
+}
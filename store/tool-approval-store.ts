@@ -0,0 +1,36 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+interface ToolApprovalStore {
+  // Tools the user approved once and for all
+  alwaysAllowedTools: string[];
+
+  setAlwaysAllow: (tool: string, allowed: boolean) => void;
+  clearAlwaysAllowed: () => void;
+  isAlwaysAllowed: (tool: string) => boolean;
+}
+
+export const useToolApprovalStore = create<ToolApprovalStore>()(
+  persist(
+    (set, get) => ({
+      alwaysAllowedTools: [],
+
+      setAlwaysAllow: (tool, allowed) => {
+        set((state) => ({
+          alwaysAllowedTools: allowed
+            ? Array.from(new Set([...state.alwaysAllowedTools, tool]))
+            : state.alwaysAllowedTools.filter((t) => t !== tool),
+        }));
+      },
+
+      clearAlwaysAllowed: () => {
+        set({ alwaysAllowedTools: [] });
+      },
+
+      isAlwaysAllowed: (tool) => {
+        return get().alwaysAllowedTools.includes(tool);
+      },
+    }),
+    { name: "tool-approval-preferences" }
+  )
+);
@@ -0,0 +1,248 @@
+import type { ContentBlock } from "@/lib/types";
+
+/**
+ * One step of a scripted assistant response.
+ */
+export type ScenarioStep =
+  // Sends an SSE event (the payload of `data` in the backend's envelope)
+  | { event: string; data: unknown }
+  // Pauses without sending anything (long pauses simulate a stalled stream)
+  | { delayMs: number }
+  // Drops the connection, once per response; the client resumes from the
+  // last event id and the script continues
+  | { disconnect: true }
+  // Waits for the user's decision on a tool call, then continues. Denied
+  // calls end with an error and the rest of the script still runs
+  | { awaitApproval: string };
+
+export interface StreamScenario {
+  steps: ScenarioStep[];
+}
+
+// The message request is refused before any streaming starts
+export interface ErrorScenario {
+  status: number;
+  body: { error: string; code?: string; request_id?: string };
+  headers?: Record<string, string>;
+}
+
+export type Scenario = StreamScenario | ErrorScenario;
+
+interface ScenarioContext {
+  // The user's message
+  content: string;
+  messageId: string;
+}
+
+// Gap between streamed chunks, so the UI has time to show streaming state
+const CHUNK_DELAY_MS = 30;
+
+function textSteps(text: string): ScenarioStep[] {
+  // Word-sized chunks, each keeping its trailing whitespace
+  const words = text.match(/\S+\s*|\s+/g) ?? [];
+  return words.flatMap((word): ScenarioStep[] => [
+    { delayMs: CHUNK_DELAY_MS },
+    { event: "content", data: { text: word } },
+  ]);
+}
+
+function progress(phase: string, extra: Record<string, unknown> = {}): ScenarioStep {
+  return { event: "progress", data: { phase, started_at: Date.now(), ...extra } };
+}
+
+function finish({ messageId }: ScenarioContext): ScenarioStep[] {
+  return [
+    {
+      event: "usage",
+      data: { input_tokens: 120, output_tokens: 48, total_tokens: 168, cost_usd: 0.0021 },
+    },
+    { event: "done", data: { message_id: messageId } },
+  ];
+}
+
+const EVERY_BLOCK: ContentBlock[] = [
+  { type: "heading", text: "Pool overview", level: 2 },
+  { type: "text", text: "THORChain pools pair **RUNE** with an external asset." },
+  { type: "list", items: ["BTC.BTC", "ETH.ETH", "BSC.BNB"], ordered: false },
+  { type: "list", items: ["Deposit", "Wait for confirmation"], ordered: true },
+  { type: "code", code: "const pool = await getPool(\"BTC.BTC\");", language: "typescript" },
+  { type: "blockquote", text: "Liquidity is the lifeblood of a DEX." },
+  {
+    type: "table",
+    headers: ["Pool", "Depth", "APY"],
+    rows: [
+      ["BTC.BTC", "$120M", "4.2%"],
+      ["ETH.ETH", "$80M", "5.1%"],
+    ],
+  },
+  { type: "hr" },
+  { type: "math", math: "x \\cdot y = k" },
+  {
+    type: "tasklist",
+    tasks: [
+      { text: "Connect wallet", checked: true },
+      { text: "Add liquidity", checked: false },
+    ],
+  },
+  { type: "callout", callout_type: "WARNING", text: "Impermanent loss applies to LP positions." },
+  {
+    type: "image",
+    image_url: "https://placehold.co/600x200/png",
+    image_alt: "Placeholder chart",
+  },
+  {
+    type: "details",
+    text: "How are fees calculated?",
+    children: [{ type: "text", text: "Fees scale with the slip of each swap." }],
+  },
+  {
+    type: "chart",
+    chart_type: "bar",
+    chart_title: "Pool depth",
+    chart_data: {
+      x_axis: { data: ["BTC", "ETH", "BNB"] },
+      series: [{ name: "Depth ($M)", data: [120, 80, 20] }],
+    },
+  },
+];
+
+/**
+ * Scripted responses, selected per test with `setScenario` (see
+ * tests/e2e/fixtures/fake-backend.ts). Users start on "default".
+ */
+export const SCENARIOS = {
+  // Echoes the message back as a short streamed answer
+  default: (context: ScenarioContext): Scenario => ({
+    steps: [
+      progress("received"),
+      progress("thinking"),
+      progress("responding"),
+      ...textSteps(`You said: ${context.content}`),
+      ...finish(context),
+    ],
+  }),
+
+  "tool-calls": (context: ScenarioContext): Scenario => ({
+    steps: [
+      progress("thinking"),
+      { event: "tool_call_start", data: { id: "call-1", tool: "mcp__thorchain__get_pools" } },
+      { event: "tool_call_delta", data: { id: "call-1", delta: '{"status":' } },
+      { delayMs: 100 },
+      { event: "tool_call_delta", data: { id: "call-1", delta: '"available"}' } },
+      progress("calling_tool", { tool_name: "mcp__thorchain__get_pools" }),
+      { delayMs: 300 },
+      {
+        event: "tool_call_end",
+        data: {
+          id: "call-1",
+          tool: "mcp__thorchain__get_pools",
+          output: { pools: [{ asset: "BTC.BTC", depth: 120000000 }] },
+        },
+      },
+      { event: "tool_call_start", data: { id: "call-2", tool: "mcp__thorchain__get_price" } },
+      {
+        event: "tool_call_end",
+        data: { id: "call-2", tool: "mcp__thorchain__get_price", error: "Price feed unavailable" },
+      },
+      progress("responding"),
+      ...textSteps("The deepest pool is BTC.BTC."),
+      ...finish(context),
+    ],
+  }),
+
+  "tool-approval": (context: ScenarioContext): Scenario => ({
+    steps: [
+      { event: "tool_call_start", data: { id: "call-1", tool: "mcp__dex__swap" } },
+      {
+        event: "tool_approval_required",
+        data: { id: "call-1", tool: "mcp__dex__swap", input: { from: "BTC", to: "ETH", amount: 1 } },
+      },
+      { awaitApproval: "call-1" },
+      ...textSteps("Done."),
+      ...finish(context),
+    ],
+  }),
+
+  citations: (context: ScenarioContext): Scenario => ({
+    steps: [
+      ...textSteps("Bifrost connects THORChain to external chains [1] and signs with TSS [2]."),
+      {
+        event: "citation",
+        data: { source: "docs", source_ref: "https://docs.thorchain.org/bifrost", reference: "1" },
+      },
+      {
+        event: "citation",
+        data: { source: "docs", source_ref: "https://docs.thorchain.org/tss", reference: "2" },
+      },
+      ...finish(context),
+    ],
+  }),
+
+  // Every content block type, streamed as structured blocks
+  "content-blocks": (context: ScenarioContext): Scenario => ({
+    steps: [
+      ...EVERY_BLOCK.flatMap((block, index): ScenarioStep[] => [
+        { delayMs: CHUNK_DELAY_MS },
+        { event: "content_block", data: { index, block } },
+      ]),
+      ...finish(context),
+    ],
+  }),
+
+  reasoning: (context: ScenarioContext): Scenario => ({
+    steps: [
+      { event: "reasoning_delta", data: { text: "The user wants a summary. " } },
+      { delayMs: 200 },
+      { event: "reasoning_delta", data: { text: "Keep it short." } },
+      ...textSteps("Here is a short summary."),
+      ...finish(context),
+    ],
+  }),
+
+  // Fails mid-stream with an error event
+  "stream-error": (): Scenario => ({
+    steps: [
+      ...textSteps("Let me check"),
+      {
+        event: "error",
+        data: { code: "internal_error", message: "The model provider failed", request_id: "req-fake" },
+      },
+    ],
+  }),
+
+  "rate-limited": (): Scenario => ({
+    status: 429,
+    body: { error: "Too many requests", code: "rate_limited", request_id: "req-fake" },
+    headers: { "Retry-After": "3" },
+  }),
+
+  "budget-exceeded": (): Scenario => ({
+    status: 402,
+    body: { error: "Daily budget exceeded", code: "budget_exceeded", request_id: "req-fake" },
+  }),
+
+  "context-too-long": (): Scenario => ({
+    steps: [
+      {
+        event: "error",
+        data: { code: "context_length_exceeded", message: "This conversation is too long" },
+      },
+    ],
+  }),
+
+  // Goes quiet mid-answer for longer than the default 45s stall timeout
+  stall: (context: ScenarioContext): Scenario => ({
+    steps: [...textSteps("Thinking about"), { delayMs: 50000 }, ...textSteps(" it."), ...finish(context)],
+  }),
+
+  // Drops the connection mid-answer; the client resumes and finishes
+  "dropped-connection": (context: ScenarioContext): Scenario => ({
+    steps: [...textSteps("Hello"), { disconnect: true }, ...textSteps(" again"), ...finish(context)],
+  }),
+} satisfies Record<string, (context: ScenarioContext) => Scenario>;
+
+export type ScenarioName = keyof typeof SCENARIOS;
+
+export function isScenarioName(name: unknown): name is ScenarioName {
+  return typeof name === "string" && Object.hasOwn(SCENARIOS, name);
+}
@@ -0,0 +1,723 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import type {
+  AuthMeResponse,
+  BudgetResponse,
+  BulkSessionRequest,
+  Citation,
+  ContentBlock,
+  CreateTagRequest,
+  Folder,
+  FolderRequest,
+  FoldersResponse,
+  Message,
+  Session,
+  SessionSearchMatch,
+  SessionSearchResponse,
+  StatusResponse,
+  Tag,
+  TagsResponse,
+  ToolApprovalRequest,
+  ToolCall,
+  UpdateSessionRequest,
+  UpdateTagRequest,
+} from "@/lib/types";
+import { isPastRetention } from "@/lib/deleted-sessions";
+import { SCENARIOS, isScenarioName, type ScenarioName, type ScenarioStep } from "./scenarios";
+
+/**
+ * In-memory stand-in for the backend, so E2E tests run without Docker,
+ * Postgres or a backend checkout. Implements the endpoints the app uses plus
+ * the test-login endpoint; assistant responses are scripted (see
+ * scenarios.ts) and chosen per user through the /__fake control endpoints.
+ */
+
+interface FakeUser {
+  tenantId: string;
+  email: string;
+  name: string;
+  scenario: ScenarioName;
+}
+
+interface FakeSession extends Session {
+  tenantId: string;
+  messages: Message[];
+}
+
+interface FakeFolder extends Folder {
+  tenantId: string;
+}
+
+interface FakeTag extends Tag {
+  tenantId: string;
+}
+
+interface SSEEventRecord {
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+// A scripted response being streamed for a session. It runs independently of
+// the connection, so a dropped client can resume from its last event id.
+interface Run {
+  session: FakeSession;
+  events: SSEEventRecord[];
+  connection: ServerResponse | null;
+  message: Message;
+  contentBlocks: Map<number, ContentBlock>;
+  toolCalls: Map<string, ToolCall>;
+  citations: Citation[];
+  approvals: Map<string, (request: ToolApprovalRequest) => void>;
+  dropped: boolean;
+  finished: boolean;
+  cancelled: boolean;
+}
+
+export interface FakeBackend {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const FRONTEND_ORIGIN = "http://localhost:3000";
+
+const BUDGET: BudgetResponse = {
+  has_budget: true,
+  daily_budget_usd: 10,
+  daily_used_usd: 2.5,
+  daily_remaining_usd: 7.5,
+  monthly_budget_usd: 200,
+  monthly_used_usd: 42,
+  monthly_remaining_usd: 158,
+};
+
+const STATUS: StatusResponse = {
+  dev_mode: true,
+  version: "fake",
+  commit: "fake",
+  build_date: new Date(0).toISOString(),
+};
+
+function createState() {
+  return {
+    usersByEmail: new Map<string, FakeUser>(),
+    // Access and refresh tokens, mapped to the tenant they belong to
+    accessTokens: new Map<string, string>(),
+    refreshTokens: new Map<string, string>(),
+    sessions: new Map<string, FakeSession>(),
+    folders: new Map<string, FakeFolder>(),
+    tags: new Map<string, FakeTag>(),
+    runs: new Map<string, Run>(),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of header?.split(";") ?? []) {
+    const [name, ...value] = part.trim().split("=");
+    if (name) cookies[name] = value.join("=");
+  }
+  return cookies;
+}
+
+async function readJSON<T>(req: IncomingMessage): Promise<Partial<T>> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    return {};
+  }
+}
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader("Access-Control-Allow-Origin", req.headers.origin ?? FRONTEND_ORIGIN);
+  res.setHeader("Access-Control-Allow-Credentials", "true");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Accept, X-CSRF-Token, Last-Event-ID, sentry-trace, baggage"
+  );
+  res.setHeader("Access-Control-Expose-Headers", "Retry-After, X-Request-ID");
+  res.setHeader("Vary", "Origin");
+}
+
+function sendJSON(res: ServerResponse, status: number, body?: unknown) {
+  if (body === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, error: string, code?: string) {
+  sendJSON(res, status, { error, code });
+}
+
+// Characters of context kept on each side of a search match
+const SNIPPET_CONTEXT = 40;
+
+function searchMessages(sessions: FakeSession[], query: string): SessionSearchMatch[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return sessions.flatMap((session) =>
+    session.messages.flatMap((message): SessionSearchMatch[] => {
+      const content = message.content.toLowerCase();
+      if (!terms.every((term) => content.includes(term))) return [];
+      const index = content.indexOf(terms[0]);
+      const start = Math.max(0, index - SNIPPET_CONTEXT);
+      const end = Math.min(content.length, index + terms[0].length + SNIPPET_CONTEXT);
+      return [
+        {
+          session_id: session.id,
+          session_title: session.title,
+          message_id: message.id,
+          role: message.role === "user" ? "user" : "assistant",
+          snippet: `${start > 0 ? "…" : ""}${message.content.slice(start, end)}${end < content.length ? "…" : ""}`,
+          created_at: message.created_at,
+        },
+      ];
+    })
+  );
+}
+
+function toSession(session: FakeSession): Session {
+  const { messages } = session;
+  return {
+    id: session.id,
+    mode: session.mode,
+    title: session.title,
+    created_at: session.created_at,
+    updated_at: session.updated_at,
+    message_count: messages.length,
+    last_message: messages[messages.length - 1]?.content,
+    pinned: session.pinned,
+    archived: session.archived,
+    deleted_at: session.deleted_at ?? null,
+    folder_id: session.folder_id ?? null,
+    tag_ids: session.tag_ids ?? [],
+  };
+}
+
+export async function startFakeBackend(port: number): Promise<FakeBackend> {
+  let state = createState();
+
+  const findUser = (tenantId: string) =>
+    [...state.usersByEmail.values()].find((user) => user.tenantId === tenantId);
+
+  const signIn = (res: ServerResponse, user: FakeUser): string => {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    const csrfToken = randomUUID();
+    state.accessTokens.set(accessToken, user.tenantId);
+    state.refreshTokens.set(refreshToken, user.tenantId);
+    res.setHeader("Set-Cookie", [
+      `access_token=${accessToken}; Path=/; HttpOnly; SameSite=Lax`,
+      `refresh_token=${refreshToken}; Path=/; HttpOnly; SameSite=Lax`,
+      `csrf_token=${csrfToken}; Path=/; SameSite=Lax`,
+    ]);
+    return csrfToken;
+  };
+
+  const getOrCreateUser = (email: string, name: string): FakeUser => {
+    let user = state.usersByEmail.get(email);
+    if (!user) {
+      user = { tenantId: randomUUID(), email, name, scenario: "default" };
+      state.usersByEmail.set(email, user);
+    }
+    return user;
+  };
+
+  // Sends an event to the run's connection and folds it into the message
+  // that is saved when the run completes
+  const emit = (run: Run, event: string, data: unknown) => {
+    const record = { id: run.events.length + 1, event, data };
+    run.events.push(record);
+    writeEvent(run.connection, record);
+
+    const payload = data as Record<string, never>;
+    switch (event) {
+      case "content":
+        run.message.content += payload.text;
+        break;
+      case "reasoning_delta":
+        run.message.reasoning = (run.message.reasoning ?? "") + payload.text;
+        break;
+      case "content_block":
+        run.contentBlocks.set(payload.index, payload.block);
+        break;
+      case "tool_call_start":
+        run.toolCalls.set(payload.id, { id: payload.id, tool: payload.tool, status: "pending" });
+        break;
+      case "tool_call_end":
+        run.toolCalls.set(payload.id, {
+          ...run.toolCalls.get(payload.id)!,
+          output: payload.output,
+          error: payload.error,
+          status: payload.error ? "error" : "completed",
+        });
+        break;
+      case "citation":
+        run.citations.push(data as Citation);
+        break;
+      case "usage":
+        run.message.usage = data as Message["usage"];
+        break;
+      case "done":
+        run.session.messages.push({
+          ...run.message,
+          content_blocks: run.contentBlocks.size
+            ? [...run.contentBlocks.entries()].sort(([a], [b]) => a - b).map(([, block]) => block)
+            : undefined,
+          tool_calls: run.toolCalls.size ? [...run.toolCalls.values()] : undefined,
+          citations: run.citations.length ? run.citations : undefined,
+        });
+        run.session.updated_at = new Date().toISOString();
+        break;
+    }
+  };
+
+  const runSteps = async (run: Run, steps: ScenarioStep[]) => {
+    for (const step of steps) {
+      if (run.cancelled) return;
+      if ("delayMs" in step) {
+        await sleep(step.delayMs);
+      } else if ("disconnect" in step) {
+        if (!run.dropped && run.connection) {
+          run.dropped = true;
+          // Destroy once the pending writes are out, so the client has
+          // received the events before the drop
+          const connection = run.connection;
+          run.connection = null;
+          connection.write("", () => connection.destroy());
+        }
+      } else if ("awaitApproval" in step) {
+        const id = step.awaitApproval;
+        const decision = await new Promise<ToolApprovalRequest>((resolve) =>
+          run.approvals.set(id, resolve)
+        );
+        run.approvals.delete(id);
+        const tool = run.toolCalls.get(id)?.tool ?? "unknown";
+        emit(
+          run,
+          "tool_call_end",
+          decision.decision === "approve"
+            ? { id, tool, output: { status: "submitted", input: decision.input ?? null } }
+            : { id, tool, error: "Denied by user" }
+        );
+      } else {
+        emit(run, step.event, step.data);
+      }
+    }
+    run.finished = true;
+    run.connection?.end();
+    if (state.runs.get(run.session.id) === run) {
+      state.runs.delete(run.session.id);
+    }
+  };
+
+  // Streams a run's events after `afterId`, then follows it live
+  const attach = (req: IncomingMessage, res: ServerResponse, run: Run, afterId: number) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    for (const record of run.events) {
+      if (record.id > afterId) writeEvent(res, record);
+    }
+    if (run.finished) {
+      res.end();
+      return;
+    }
+    run.connection = res;
+    req.on("close", () => {
+      if (run.connection !== res) return;
+      // The user stopped the response
+      run.connection = null;
+      if (!run.finished) {
+        run.cancelled = true;
+        state.runs.delete(run.session.id);
+      }
+    });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    setCorsHeaders(req, res);
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+    const path = url.pathname;
+    const method = req.method ?? "GET";
+    const cookies = parseCookies(req.headers.cookie);
+
+    // Unauthenticated endpoints
+    if (path === "/health") return sendJSON(res, 200, { status: "ok" });
+    if (path === "/status") return sendJSON(res, 200, STATUS);
+
+    if (path === "/__fake/reset" && method === "POST") {
+      state = createState();
+      return sendJSON(res, 204);
+    }
+    if (path === "/__fake/scenario" && method === "POST") {
+      const body = await readJSON<{ tenant_id: string; scenario: string }>(req);
+      const user = body.tenant_id ? findUser(body.tenant_id) : undefined;
+      if (!user) return sendError(res, 404, "Unknown tenant");
+      if (!isScenarioName(body.scenario)) return sendError(res, 400, `Unknown scenario: ${body.scenario}`);
+      user.scenario = body.scenario;
+      return sendJSON(res, 204);
+    }
+
+    if (path === "/v1/auth/test-login" && method === "POST") {
+      const body = await readJSON<{ email: string; name: string }>(req);
+      if (!body.email) return sendError(res, 400, "email is required");
+      const user = getOrCreateUser(body.email, body.name ?? body.email);
+      signIn(res, user);
+      return sendJSON(res, 200, { tenant_id: user.tenantId, email: user.email, name: user.name });
+    }
+    if (path === "/v1/auth/refresh" && method === "POST") {
+      const tenantId = state.refreshTokens.get(cookies.refresh_token);
+      const user = tenantId ? findUser(tenantId) : undefined;
+      if (!user) return sendError(res, 401, "Invalid refresh token");
+      state.refreshTokens.delete(cookies.refresh_token);
+      return sendJSON(res, 200, { csrf_token: signIn(res, user) });
+    }
+    const oauth = path.match(/^\/v1\/auth\/(google|discord|apple)$/);
+    if (oauth && method === "GET") {
+      // Skips the provider and signs in a fixed user
+      const user = getOrCreateUser(`${oauth[1]}-user@example.com`, "Fake OAuth User");
+      const csrfToken = signIn(res, user);
+      const redirect = new URL(url.searchParams.get("redirect_uri") ?? `${FRONTEND_ORIGIN}/auth/callback`);
+      redirect.searchParams.set("csrf_token", csrfToken);
+      res.writeHead(302, { Location: redirect.toString() }).end();
+      return;
+    }
+
+    const tenantId = state.accessTokens.get(cookies.access_token);
+    const user = tenantId ? findUser(tenantId) : undefined;
+    if (!user) return sendError(res, 401, "Unauthorized");
+
+    if (path === "/v1/auth/me" && method === "GET") {
+      const me: AuthMeResponse = {
+        tenant_id: user.tenantId,
+        tenant_name: `${user.name}'s workspace`,
+        email: user.email,
+        name: user.name,
+        provider: "test",
+        linked_providers: ["test"],
+      };
+      return sendJSON(res, 200, me);
+    }
+    if (path === "/v1/auth/logout" && method === "POST") {
+      state.accessTokens.delete(cookies.access_token);
+      state.refreshTokens.delete(cookies.refresh_token);
+      res.setHeader("Set-Cookie", [
+        "access_token=; Path=/; Max-Age=0",
+        "refresh_token=; Path=/; Max-Age=0",
+      ]);
+      return sendJSON(res, 204);
+    }
+    if (path === "/v1/tenant/budget" && method === "GET") {
+      return sendJSON(res, 200, BUDGET);
+    }
+
+    // Deleted sessions past the retention window are purged on each request
+    for (const session of state.sessions.values()) {
+      if (session.deleted_at && isPastRetention(session.deleted_at)) {
+        state.sessions.delete(session.id);
+      }
+    }
+    const tenantSessions = () =>
+      [...state.sessions.values()].filter((session) => session.tenantId === user.tenantId);
+    // Deleting a session soft-deletes it into "Recently deleted"
+    const softDelete = (session: FakeSession) => {
+      session.deleted_at = new Date().toISOString();
+      state.runs.get(session.id)?.connection?.end();
+      state.runs.delete(session.id);
+    };
+
+    if (path === "/v1/folders") {
+      if (method === "GET") {
+        const folders = [...state.folders.values()]
+          .filter((folder) => folder.tenantId === user.tenantId)
+          .map(({ id, name, created_at }) => ({ id, name, created_at }));
+        return sendJSON(res, 200, { folders } satisfies FoldersResponse);
+      }
+      if (method === "POST") {
+        const body = await readJSON<FolderRequest>(req);
+        if (!body.name) return sendError(res, 400, "name is required");
+        const folder = { id: randomUUID(), name: body.name, created_at: new Date().toISOString() };
+        state.folders.set(folder.id, { ...folder, tenantId: user.tenantId });
+        return sendJSON(res, 201, folder);
+      }
+    }
+    const folderRoute = path.match(/^\/v1\/folders\/([^/]+)$/);
+    if (folderRoute) {
+      const folder = state.folders.get(folderRoute[1]);
+      if (!folder || folder.tenantId !== user.tenantId) {
+        return sendError(res, 404, "Folder not found", "not_found");
+      }
+      if (method === "PATCH") {
+        const body = await readJSON<FolderRequest>(req);
+        if (body.name) folder.name = body.name;
+        return sendJSON(res, 200, { id: folder.id, name: folder.name, created_at: folder.created_at });
+      }
+      if (method === "DELETE") {
+        state.folders.delete(folder.id);
+        for (const session of tenantSessions()) {
+          if (session.folder_id === folder.id) session.folder_id = null;
+        }
+        return sendJSON(res, 204);
+      }
+    }
+
+    if (path === "/v1/tags") {
+      if (method === "GET") {
+        const tags = [...state.tags.values()]
+          .filter((tag) => tag.tenantId === user.tenantId)
+          .map(({ id, name, color }) => ({ id, name, color }));
+        return sendJSON(res, 200, { tags } satisfies TagsResponse);
+      }
+      if (method === "POST") {
+        const body = await readJSON<CreateTagRequest>(req);
+        if (!body.name) return sendError(res, 400, "name is required");
+        const tag: Tag = { id: randomUUID(), name: body.name, color: body.color ?? "gray" };
+        state.tags.set(tag.id, { ...tag, tenantId: user.tenantId });
+        return sendJSON(res, 201, tag);
+      }
+    }
+    const tagRoute = path.match(/^\/v1\/tags\/([^/]+)$/);
+    if (tagRoute) {
+      const tag = state.tags.get(tagRoute[1]);
+      if (!tag || tag.tenantId !== user.tenantId) {
+        return sendError(res, 404, "Tag not found", "not_found");
+      }
+      if (method === "PATCH") {
+        const body = await readJSON<UpdateTagRequest>(req);
+        if (body.name) tag.name = body.name;
+        if (body.color) tag.color = body.color;
+        return sendJSON(res, 200, { id: tag.id, name: tag.name, color: tag.color });
+      }
+      if (method === "DELETE") {
+        state.tags.delete(tag.id);
+        for (const session of tenantSessions()) {
+          session.tag_ids = session.tag_ids?.filter((id) => id !== tag.id);
+        }
+        return sendJSON(res, 204);
+      }
+    }
+
+    if (path === "/v1/sessions") {
+      if (method === "GET") {
+        const limit = Number(url.searchParams.get("limit") ?? 50);
+        const offset = Number(url.searchParams.get("offset") ?? 0);
+        // Archived sessions only when asked for, instead of the others
+        const archived = url.searchParams.get("archived") === "true";
+        // Pinned sessions first, so they are on the first page
+        const sessions = tenantSessions()
+          .filter((session) => !!session.archived === archived && !session.deleted_at)
+          .sort(
+            (a, b) =>
+              Number(!!b.pinned) - Number(!!a.pinned) || b.updated_at.localeCompare(a.updated_at)
+          );
+        return sendJSON(res, 200, {
+          sessions: sessions.slice(offset, offset + limit).map(toSession),
+          total: sessions.length,
+          limit,
+          offset,
+        });
+      }
+      if (method === "POST") {
+        const body = await readJSON<{ mode: Session["mode"] }>(req);
+        const now = new Date().toISOString();
+        const session: FakeSession = {
+          id: randomUUID(),
+          mode: body.mode ?? "chat",
+          created_at: now,
+          updated_at: now,
+          tenantId: user.tenantId,
+          messages: [],
+        };
+        state.sessions.set(session.id, session);
+        return sendJSON(res, 201, toSession(session));
+      }
+    }
+
+    if (path === "/v1/sessions/search" && method === "GET") {
+      const query = url.searchParams.get("q")?.trim() ?? "";
+      const limit = Number(url.searchParams.get("limit") ?? 20);
+      const sessions = tenantSessions()
+        .filter((session) => !session.deleted_at)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+      const results = query ? searchMessages(sessions, query).slice(0, limit) : [];
+      return sendJSON(res, 200, { results } satisfies SessionSearchResponse);
+    }
+
+    if (path === "/v1/sessions/bulk" && method === "POST") {
+      const body = (await readJSON<BulkSessionRequest>(req)) as BulkSessionRequest;
+      const ids = new Set(body.session_ids ?? []);
+      for (const session of tenantSessions().filter((s) => ids.has(s.id))) {
+        if (body.action === "delete") {
+          softDelete(session);
+        } else if (body.action === "restore") {
+          session.deleted_at = null;
+        } else if (body.action === "archive") {
+          session.archived = true;
+        } else if (body.action === "move") {
+          session.folder_id = body.folder_id;
+        }
+      }
+      return sendJSON(res, 204);
+    }
+
+    if (path === "/v1/sessions/deleted" && method === "GET") {
+      const sessions = tenantSessions()
+        .filter((session) => session.deleted_at)
+        .sort((a, b) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? ""));
+      return sendJSON(res, 200, {
+        sessions: sessions.map(toSession),
+        total: sessions.length,
+        limit: sessions.length,
+        offset: 0,
+      });
+    }
+
+    const sessionRoute = path.match(/^\/v1\/sessions\/([^/]+)(\/.*)?$/);
+    if (!sessionRoute) return sendError(res, 404, "Not found");
+    const session = state.sessions.get(sessionRoute[1]);
+    if (!session || session.tenantId !== user.tenantId || session.deleted_at) {
+      return sendError(res, 404, "Session not found", "not_found");
+    }
+    const subPath = sessionRoute[2] ?? "";
+
+    if (subPath === "") {
+      if (method === "GET") {
+        return sendJSON(res, 200, { ...toSession(session), messages: session.messages });
+      }
+      if (method === "PATCH") {
+        const body = await readJSON<UpdateSessionRequest>(req);
+        if (body.title !== undefined) {
+          session.title = body.title;
+          session.updated_at = new Date().toISOString();
+        }
+        // Pinning doesn't count as activity, so it keeps the date group
+        if (body.pinned !== undefined) session.pinned = body.pinned;
+        if (body.folder_id !== undefined) session.folder_id = body.folder_id;
+        if (body.tag_ids !== undefined) session.tag_ids = body.tag_ids;
+        if (body.archived !== undefined) session.archived = body.archived;
+        return sendJSON(res, 200, toSession(session));
+      }
+      if (method === "DELETE") {
+        softDelete(session);
+        return sendJSON(res, 204);
+      }
+    }
+
+    if (subPath === "/messages" && method === "POST") {
+      const body = await readJSON<{ content: string; parent_id?: string | null }>(req);
+      const content = body.content ?? "";
+      const messageId = randomUUID();
+      const scenario = SCENARIOS[user.scenario]({ content, messageId });
+
+      if ("status" in scenario) {
+        res.writeHead(scenario.status, { "Content-Type": "application/json", ...scenario.headers });
+        res.end(JSON.stringify(scenario.body));
+        return;
+      }
+
+      const now = new Date().toISOString();
+      // Follows the given message, or by default the latest one
+      const lastMessage = session.messages[session.messages.length - 1];
+      const parentId = body.parent_id !== undefined ? body.parent_id : (lastMessage?.id ?? null);
+      const userMessageId = randomUUID();
+      session.messages.push({
+        id: userMessageId,
+        role: "user",
+        content,
+        created_at: now,
+        parent_id: parentId,
+      });
+      session.title ??= content.slice(0, 50);
+      session.updated_at = now;
+
+      const run: Run = {
+        session,
+        events: [],
+        connection: null,
+        message: {
+          id: messageId,
+          role: "assistant",
+          content: "",
+          created_at: now,
+          parent_id: userMessageId,
+        },
+        contentBlocks: new Map(),
+        toolCalls: new Map(),
+        citations: [],
+        approvals: new Map(),
+        dropped: false,
+        finished: false,
+        cancelled: false,
+      };
+      state.runs.get(session.id)?.connection?.end();
+      state.runs.set(session.id, run);
+      attach(req, res, run, 0);
+      void runSteps(run, scenario.steps);
+      return;
+    }
+
+    if (subPath === "/messages/resume" && method === "GET") {
+      const run = state.runs.get(session.id);
+      if (!run) return sendError(res, 404, "No response to resume", "not_found");
+      attach(req, res, run, Number(req.headers["last-event-id"] ?? 0));
+      return;
+    }
+
+    const approval = subPath.match(/^\/tool-calls\/([^/]+)\/approval$/);
+    if (approval && method === "POST") {
+      const resolve = state.runs.get(session.id)?.approvals.get(approval[1]);
+      if (!resolve) return sendError(res, 404, "Tool call is not awaiting approval", "not_found");
+      resolve((await readJSON<ToolApprovalRequest>(req)) as ToolApprovalRequest);
+      return sendJSON(res, 204);
+    }
+
+    return sendError(res, 404, "Not found");
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("[Fake backend]", error);
+      if (!res.headersSent) sendError(res, 500, "Internal error", "internal_error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, resolve);
+  });
+
+  return {
+    url: `http://localhost:${port}`,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function writeEvent(res: ServerResponse | null, record: SSEEventRecord) {
+  // Matches the backend envelope: {"type": ..., "data": ...}
+  res?.write(
+    `id: ${record.id}\nevent: ${record.event}\ndata: ${JSON.stringify({ type: record.event, data: record.data })}\n\n`
+  );
+}
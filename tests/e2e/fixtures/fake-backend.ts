@@ -0,0 +1,32 @@
+import type { LoginResult } from "./auth";
+import type { ScenarioName } from "../fake-backend/scenarios";
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:8080";
+
+/**
+ * Whether the run uses the in-repo fake backend (E2E_FAKE_BACKEND=true).
+ * Tests that depend on scripted responses should skip otherwise.
+ */
+export const isFakeBackend = process.env.E2E_FAKE_BACKEND === "true";
+
+/**
+ * Selects the scripted response the fake backend streams for this user's
+ * messages until changed (see tests/e2e/fake-backend/scenarios.ts).
+ */
+export async function setScenario(user: LoginResult, scenario: ScenarioName): Promise<void> {
+  const response = await fetch(`${BACKEND_URL}/__fake/scenario`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ tenant_id: user.tenantId, scenario }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Setting scenario "${scenario}" failed (${response.status}): ${errorText}. ` +
+        `Make sure the tests run with E2E_FAKE_BACKEND=true`
+    );
+  }
+}
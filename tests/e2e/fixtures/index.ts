@@ -1,2 +1,3 @@
 export { login, logout, type LoginOptions, type LoginResult } from "./auth";
 export { ConsoleMonitor, type ConsoleError } from "./console-monitor";
+export { setScenario, isFakeBackend } from "./fake-backend";
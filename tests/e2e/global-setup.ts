@@ -1,15 +1,26 @@
 import { execSync } from "child_process";
+import { startFakeBackend } from "./fake-backend/server";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:8080";
 const SKIP_DOCKER = process.env.E2E_SKIP_DOCKER === "true";
+const FAKE_BACKEND = process.env.E2E_FAKE_BACKEND === "true";
 
 /**
  * Global setup for E2E tests.
  * Ensures backend services are running before tests start.
  */
-async function globalSetup(): Promise<void> {
+async function globalSetup(): Promise<void | (() => Promise<void>)> {
   console.log("\n[E2E Setup] Starting...");
 
+  // Serve the in-repo fake backend instead of docker-compose
+  if (FAKE_BACKEND) {
+    const port = Number(new URL(BACKEND_URL).port) || 80;
+    const backend = await startFakeBackend(port);
+    console.log(`[E2E Setup] E2E_FAKE_BACKEND=true, fake backend listening at ${backend.url}`);
+    // Playwright runs the returned function as teardown
+    return backend.close;
+  }
+
   // Check if we should skip docker management
   if (SKIP_DOCKER) {
     console.log("[E2E Setup] E2E_SKIP_DOCKER=true, skipping docker-compose");
@@ -2,6 +2,7 @@ import { execSync } from "child_process";
 
 const SKIP_DOCKER = process.env.E2E_SKIP_DOCKER === "true";
 const KEEP_DOCKER = process.env.E2E_KEEP_DOCKER === "true";
+const FAKE_BACKEND = process.env.E2E_FAKE_BACKEND === "true";
 
 /**
  * Global teardown for E2E tests.
@@ -10,6 +11,12 @@ const KEEP_DOCKER = process.env.E2E_KEEP_DOCKER === "true";
 async function globalTeardown(): Promise<void> {
   console.log("\n[E2E Teardown] Starting...");
 
+  // The fake backend is stopped by the function returned from global setup
+  if (FAKE_BACKEND) {
+    console.log("[E2E Teardown] Using the fake backend, no docker-compose to stop");
+    return;
+  }
+
   // Check if we should skip docker management
   if (SKIP_DOCKER || KEEP_DOCKER) {
     console.log(
@@ -0,0 +1,182 @@
+import { test, expect, type Page } from "@playwright/test";
+import { login, setScenario, isFakeBackend, ConsoleMonitor, type LoginResult } from "./fixtures";
+
+/**
+ * Deterministic response scenarios, scripted by the fake backend
+ * (run with E2E_FAKE_BACKEND=true).
+ */
+test.describe("Scripted Responses", () => {
+  test.skip(!isFakeBackend, "Requires the fake backend (E2E_FAKE_BACKEND=true)");
+
+  let user: LoginResult;
+
+  test.beforeEach(async ({ context }) => {
+    user = await login(context, {
+      email: "scenarios-test@example.com",
+      name: "Scenarios Test User",
+    });
+  });
+
+  async function send(page: Page, message: string) {
+    await page.goto("/chat");
+    await page.getByTestId("message-input").fill(message);
+    await page.getByTestId("send-button").click();
+    await expect(page.getByTestId("user-message")).toBeVisible();
+  }
+
+  test("should stream the default echo response", async ({ page }) => {
+    const consoleMonitor = new ConsoleMonitor(page);
+    await setScenario(user, "default");
+
+    await send(page, "Hello fake backend");
+
+    await expect(page.getByTestId("assistant-message")).toContainText(
+      "You said: Hello fake backend"
+    );
+    await expect(page.getByTestId("send-button")).toBeVisible();
+
+    consoleMonitor.assertNoErrors();
+  });
+
+  test("should branch the conversation when a sent message is edited", async ({ page }) => {
+    await setScenario(user, "default");
+
+    await send(page, "Hello fake backend");
+    await expect(page.getByTestId("assistant-message")).toContainText(
+      "You said: Hello fake backend"
+    );
+
+    await page.getByTestId("edit-message").click();
+    await page.getByTestId("message-edit-input").fill("Hello again");
+    await page.getByTestId("message-edit-submit").click();
+
+    await expect(page.getByTestId("assistant-message")).toContainText("You said: Hello again");
+    const switcher = page.getByTestId("branch-switcher");
+    await expect(switcher).toContainText("2/2");
+
+    await page.getByTestId("branch-previous").click();
+    await expect(switcher).toContainText("1/2");
+    await expect(page.getByTestId("user-message")).toContainText("Hello fake backend");
+    await expect(page.getByTestId("assistant-message")).toContainText(
+      "You said: Hello fake backend"
+    );
+  });
+
+  test("should regenerate a response on a new branch", async ({ page }) => {
+    await setScenario(user, "default");
+
+    await send(page, "Hello fake backend");
+    await expect(page.getByTestId("assistant-message")).toContainText(
+      "You said: Hello fake backend"
+    );
+
+    await page.getByRole("button", { name: "Try again" }).click();
+
+    const switcher = page.getByTestId("branch-switcher");
+    await expect(switcher).toContainText("2/2");
+    await expect(page.getByTestId("user-message")).toHaveCount(1);
+    await expect(page.getByTestId("assistant-message")).toHaveCount(1);
+
+    await page.getByTestId("branch-previous").click();
+    await expect(switcher).toContainText("1/2");
+    await expect(page.getByTestId("assistant-message")).toContainText(
+      "You said: Hello fake backend"
+    );
+  });
+
+  test("should show completed and failed tool calls", async ({ page }) => {
+    await setScenario(user, "tool-calls");
+
+    await send(page, "Which pool is deepest?");
+
+    const assistant = page.getByTestId("assistant-message");
+    await expect(assistant).toContainText("The deepest pool is BTC.BTC.");
+    await expect(assistant).toContainText("get_pools");
+    await expect(assistant).toContainText("get_price");
+  });
+
+  test("should collect tool outputs in an exploration's data pane", async ({ page }) => {
+    await setScenario(user, "tool-calls");
+
+    await page.goto("/chat");
+    await page.getByTestId("new-exploration-button").click();
+    await expect(page.getByTestId("data-pane")).toBeVisible();
+    await page.getByTestId("message-input").fill("Which pool is deepest?");
+    await page.getByTestId("send-button").click();
+
+    await expect(page.getByTestId("assistant-message")).toContainText(
+      "The deepest pool is BTC.BTC."
+    );
+    const content = page.getByTestId("data-pane-content");
+    await expect(content.locator("table")).toContainText("BTC.BTC");
+    await page.getByTestId("data-view-json").click();
+    await expect(content).toContainText('"depth": 120000000');
+    await expect(page.locator('[data-testid^="session-explorer-"]')).toHaveCount(1);
+  });
+
+  test("should pause for approval and continue once approved", async ({ page }) => {
+    await setScenario(user, "tool-approval");
+
+    await send(page, "Swap 1 BTC to ETH");
+
+    await expect(page.getByTestId("tool-approval")).toBeVisible();
+    await page.getByTestId("tool-approve").click();
+
+    await expect(page.getByTestId("assistant-message")).toContainText("Done.");
+    await expect(page.getByTestId("tool-approval")).toHaveCount(0);
+  });
+
+  test("should render every content block type", async ({ page }) => {
+    await setScenario(user, "content-blocks");
+
+    await send(page, "Show me everything");
+
+    const assistant = page.getByTestId("assistant-message");
+    await expect(assistant.getByRole("heading", { name: "Pool overview" })).toBeVisible();
+    await expect(assistant.locator("table")).toBeVisible();
+    await expect(assistant).toContainText("Impermanent loss applies to LP positions.");
+    await expect(assistant).toContainText("How are fees calculated?");
+    await expect(page.getByTestId("invalid-content-block")).toHaveCount(0);
+  });
+
+  test("should resume a dropped stream without duplicating content", async ({ page }) => {
+    await setScenario(user, "dropped-connection");
+
+    await send(page, "Say hello");
+
+    await expect(page.getByTestId("assistant-message")).toHaveText(/Hello again/);
+    await expect(page.getByTestId("assistant-message")).not.toContainText("HelloHello");
+  });
+
+  test("should count down before retrying a rate-limited message", async ({ page }) => {
+    await setScenario(user, "rate-limited");
+
+    await send(page, "Too fast");
+
+    await expect(page.getByTestId("stream-error-notice")).toBeVisible();
+    await expect(page.getByTestId("error-retry")).toBeDisabled();
+
+    await setScenario(user, "default");
+    await expect(page.getByTestId("error-retry")).toBeEnabled({ timeout: 5000 });
+    await page.getByTestId("error-retry").click();
+
+    await expect(page.getByTestId("assistant-message")).toContainText("You said: Too fast");
+  });
+
+  test("should offer a new chat when the conversation is too long", async ({ page }) => {
+    await setScenario(user, "context-too-long");
+
+    await send(page, "One more thing");
+
+    await expect(page.getByTestId("error-new-chat")).toBeVisible();
+  });
+
+  test("should toast stream errors with the request id", async ({ page }) => {
+    await setScenario(user, "stream-error");
+
+    await send(page, "Break please");
+
+    await expect(page.getByText("The model provider failed (request req-fake)")).toBeVisible();
+    await expect(page.getByTestId("send-button")).toBeVisible();
+  });
+});
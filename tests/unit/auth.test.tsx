@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { ReactNode } from "react";
+import { render, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { logout } from "@/lib/auth";
+import { AuthProvider } from "@/lib/auth-context";
+import { closeTabSync } from "@/lib/tab-sync";
+import { useChatStore } from "@/store/chat-store";
+import { useToolApprovalStore } from "@/store/tool-approval-store";
+
+vi.mock("@/lib/api", () => ({
+  api: {
+    getMe: vi.fn(),
+    logout: vi.fn(),
+  },
+}));
+
+function renderWithProviders(children: ReactNode) {
+  const queryClient = new QueryClient();
+  return render(<QueryClientProvider client={queryClient}>{children}</QueryClientProvider>);
+}
+
+describe("logging out", () => {
+  beforeEach(() => {
+    useToolApprovalStore.setState({ alwaysAllowedTools: ["mcp__dex__swap"] });
+  });
+
+  afterEach(() => {
+    closeTabSync();
+  });
+
+  it("should forget the tools the user always allows", async () => {
+    vi.mocked(api.logout).mockResolvedValueOnce(undefined);
+
+    await logout();
+
+    expect(useToolApprovalStore.getState().alwaysAllowedTools).toEqual([]);
+    expect(localStorage.getItem("tool-approval-preferences")).not.toContain("mcp__dex__swap");
+  });
+
+  it("should stop responses that are still streaming", async () => {
+    vi.mocked(api.logout).mockResolvedValueOnce(undefined);
+    useChatStore.setState({ streams: {} });
+    const controller = useChatStore.getState().startStreaming("session-1");
+
+    await logout();
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(useChatStore.getState().getStreamingSessionIds()).toEqual([]);
+  });
+
+  it("should stop streams and forget always-allowed tools when another tab logs out", async () => {
+    useChatStore.setState({ streams: {} });
+    const controller = useChatStore.getState().startStreaming("session-1");
+    vi.mocked(api.getMe).mockRejectedValue(new Error("Unauthorized"));
+    window.history.pushState({}, "", "/login");
+    renderWithProviders(<AuthProvider>{null}</AuthProvider>);
+
+    const otherTab = new BroadcastChannel("badlands-tab-sync");
+    otherTab.postMessage({ type: "logged_out" });
+
+    await waitFor(() => expect(useToolApprovalStore.getState().alwaysAllowedTools).toEqual([]));
+    expect(controller.signal.aborted).toBe(true);
+    otherTab.close();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { clearBranchPreference, getConversationPath, preferBranch } from "@/lib/branches";
+import type { Message } from "@/lib/types";
+
+function message(id: string, parentId?: string | null): Message {
+  return {
+    id,
+    role: id.startsWith("u") ? "user" : "assistant",
+    content: id,
+    created_at: "2026-01-01T00:00:00Z",
+    ...(parentId !== undefined && { parent_id: parentId }),
+  };
+}
+
+const ids = (messages: Message[]) => messages.map((m) => m.id);
+
+// u1 was edited into u2, whose reply was retried: u1 -> a1, u2 -> a2 | a3
+const tree = [
+  message("u1", null),
+  message("a1", "u1"),
+  message("u2", null),
+  message("a2", "u2"),
+  message("a3", "u2"),
+];
+
+describe("getConversationPath", () => {
+  it("should follow array order for messages without parents", () => {
+    const { messages, branches } = getConversationPath([message("u1"), message("a1")]);
+    expect(ids(messages)).toEqual(["u1", "a1"]);
+    expect(branches).toEqual({});
+  });
+
+  it("should take the newest alternative at each branch point", () => {
+    const { messages, branches } = getConversationPath(tree);
+    expect(ids(messages)).toEqual(["u2", "a3"]);
+    expect(branches).toEqual({ u2: ["u1", "u2"], a3: ["a2", "a3"] });
+  });
+
+  it("should take the alternative picked last", () => {
+    expect(ids(getConversationPath(tree, ["a2"]).messages)).toEqual(["u2", "a2"]);
+    expect(ids(getConversationPath(tree, ["a2", "u1"]).messages)).toEqual(["u1", "a1"]);
+    expect(ids(getConversationPath(tree, ["u1", "u2"]).messages)).toEqual(["u2", "a3"]);
+  });
+
+  it("should continue older messages with a branch off their last one", () => {
+    const messages = [message("u1"), message("a1"), message("u2", "a1"), message("u3", "a1")];
+    const path = getConversationPath(messages);
+    expect(ids(path.messages)).toEqual(["u1", "a1", "u3"]);
+    expect(path.branches).toEqual({ u3: ["u2", "u3"] });
+  });
+});
+
+describe("preferBranch", () => {
+  it("should move the picked id to the end", () => {
+    expect(preferBranch(["a2", "u1"], "a2")).toEqual(["u1", "a2"]);
+    expect(preferBranch([], "u1")).toEqual(["u1"]);
+  });
+});
+
+describe("clearBranchPreference", () => {
+  it("should drop the alternatives of a branch point", () => {
+    expect(clearBranchPreference(["a2", "u1"], ["u1", "u2"])).toEqual(["a2"]);
+  });
+});
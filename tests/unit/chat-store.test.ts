@@ -1,64 +1,105 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { useChatStore } from "@/store/chat-store";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { useChatStore, IDLE_STREAM } from "@/store/chat-store";
+
+const SESSION = "session-1";
+const OTHER_SESSION = "session-2";
 
 describe("ChatStore", () => {
   beforeEach(() => {
     // Reset store state before each test
-    useChatStore.setState({
-      isStreaming: false,
-      streamingContent: "",
-      streamingToolCalls: new Map(),
-      streamingCitations: [],
-      abortController: null,
-    });
+    useChatStore.setState({ streams: {} });
   });
 
   describe("startStreaming", () => {
     it("should set isStreaming to true and return AbortController", () => {
       const store = useChatStore.getState();
-      const controller = store.startStreaming();
+      const controller = store.startStreaming(SESSION);
 
-      const state = useChatStore.getState();
-      expect(state.isStreaming).toBe(true);
-      expect(state.streamingContent).toBe("");
-      expect(state.abortController).toBe(controller);
+      const stream = useChatStore.getState().getStream(SESSION);
+      expect(stream.isStreaming).toBe(true);
+      expect(stream.streamingContent).toBe("");
+      expect(stream.abortController).toBe(controller);
       expect(controller).toBeInstanceOf(AbortController);
     });
 
     it("should reset streaming state when starting new stream", () => {
       // Add some content first
-      useChatStore.getState().appendContent("test content");
-      useChatStore.getState().addCitation({
+      useChatStore.getState().startStreaming(SESSION);
+      useChatStore.getState().appendContent(SESSION, "test content");
+      useChatStore.getState().addCitation(SESSION, {
         source: "test",
         source_ref: "ref",
         reference: "content",
       });
 
       // Start new streaming
-      useChatStore.getState().startStreaming();
+      useChatStore.getState().startStreaming(SESSION);
 
-      const state = useChatStore.getState();
-      expect(state.streamingContent).toBe("");
-      expect(state.streamingCitations).toHaveLength(0);
+      const stream = useChatStore.getState().getStream(SESSION);
+      expect(stream.streamingContent).toBe("");
+      expect(stream.streamingCitations).toHaveLength(0);
     });
   });
 
   describe("appendContent", () => {
     it("should append text to streamingContent", () => {
       const store = useChatStore.getState();
-      store.appendContent("Hello");
-      store.appendContent(" World");
+      store.startStreaming(SESSION);
+      store.appendContent(SESSION, "Hello");
+      store.appendContent(SESSION, " World");
+
+      expect(useChatStore.getState().getStream(SESSION).streamingContent).toBe("Hello World");
+    });
+
+    it("should ignore content for sessions that are not streaming", () => {
+      const store = useChatStore.getState();
+      store.appendContent(SESSION, "late event");
+
+      expect(useChatStore.getState().streams[SESSION]).toBeUndefined();
+    });
+  });
+
+  describe("appendReasoning", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should time reasoning until the answer starts", () => {
+      vi.useFakeTimers();
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION);
+      store.appendReasoning(SESSION, "Checking ");
+      vi.advanceTimersByTime(2000);
+      store.appendReasoning(SESSION, "the pools");
+
+      expect(useChatStore.getState().getStream(SESSION).reasoningDurationMs).toBeNull();
+
+      vi.advanceTimersByTime(1000);
+      store.appendContent(SESSION, "Answer");
+      vi.advanceTimersByTime(5000);
+      store.appendContent(SESSION, " continues");
+
+      const stream = useChatStore.getState().getStream(SESSION);
+      expect(stream.reasoning).toBe("Checking the pools");
+      expect(stream.reasoningDurationMs).toBe(3000);
+    });
+
+    it("should leave the duration unset for streams without reasoning", () => {
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION);
+      store.appendContent(SESSION, "Answer");
 
-      expect(useChatStore.getState().streamingContent).toBe("Hello World");
+      expect(useChatStore.getState().getStream(SESSION).reasoningDurationMs).toBeNull();
     });
   });
 
   describe("addToolCallStart", () => {
     it("should add a pending tool call", () => {
       const store = useChatStore.getState();
-      store.addToolCallStart("call-1", "get_weather");
+      store.startStreaming(SESSION);
+      store.addToolCallStart(SESSION, "call-1", "get_weather");
 
-      const toolCalls = store.getToolCalls();
+      const toolCalls = store.getToolCalls(SESSION);
       expect(toolCalls).toHaveLength(1);
       expect(toolCalls[0]).toEqual({
         id: "call-1",
@@ -68,23 +109,51 @@ describe("ChatStore", () => {
     });
   });
 
+  describe("appendToolCallInput", () => {
+    it("should fill the tool call input as argument deltas arrive", () => {
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION);
+      store.addToolCallStart(SESSION, "call-1", "search");
+
+      store.appendToolCallInput(SESSION, "call-1", '{"query": "uni');
+      expect(store.getToolCalls(SESSION)[0].input).toEqual({ query: "uni" });
+
+      // A cut-off key keeps the input parsed so far
+      store.appendToolCallInput(SESSION, "call-1", 'swap", "lim');
+      expect(store.getToolCalls(SESSION)[0].input).toEqual({ query: "uniswap" });
+
+      store.appendToolCallInput(SESSION, "call-1", 'it": 5}');
+      expect(store.getToolCalls(SESSION)[0].input).toEqual({ query: "uniswap", limit: 5 });
+    });
+
+    it("should ignore deltas for unknown tool calls", () => {
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION);
+      store.appendToolCallInput(SESSION, "missing", '{"a": 1}');
+
+      expect(store.getToolCalls(SESSION)).toEqual([]);
+    });
+  });
+
   describe("updateToolCallEnd", () => {
     it("should update tool call with output", () => {
       const store = useChatStore.getState();
-      store.addToolCallStart("call-1", "get_weather");
-      store.updateToolCallEnd("call-1", "get_weather", { temp: 72 });
+      store.startStreaming(SESSION);
+      store.addToolCallStart(SESSION, "call-1", "get_weather");
+      store.updateToolCallEnd(SESSION, "call-1", "get_weather", { temp: 72 });
 
-      const toolCalls = store.getToolCalls();
+      const toolCalls = store.getToolCalls(SESSION);
       expect(toolCalls[0].status).toBe("completed");
       expect(toolCalls[0].output).toEqual({ temp: 72 });
     });
 
     it("should update tool call with error", () => {
       const store = useChatStore.getState();
-      store.addToolCallStart("call-1", "get_weather");
-      store.updateToolCallEnd("call-1", "get_weather", undefined, "API error");
+      store.startStreaming(SESSION);
+      store.addToolCallStart(SESSION, "call-1", "get_weather");
+      store.updateToolCallEnd(SESSION, "call-1", "get_weather", undefined, "API error");
 
-      const toolCalls = store.getToolCalls();
+      const toolCalls = store.getToolCalls(SESSION);
       expect(toolCalls[0].status).toBe("error");
       expect(toolCalls[0].error).toBe("API error");
     });
@@ -93,50 +162,138 @@ describe("ChatStore", () => {
   describe("addCitation", () => {
     it("should add citation to list", () => {
       const store = useChatStore.getState();
-      store.addCitation({
+      store.startStreaming(SESSION);
+      store.addCitation(SESSION, {
         source: "mcp:get_pools",
         source_ref: "block:123",
         reference: "ETH pool depth",
       });
 
-      const state = useChatStore.getState();
-      expect(state.streamingCitations).toHaveLength(1);
-      expect(state.streamingCitations[0].source).toBe("mcp:get_pools");
+      const stream = useChatStore.getState().getStream(SESSION);
+      expect(stream.streamingCitations).toHaveLength(1);
+      expect(stream.streamingCitations[0].source).toBe("mcp:get_pools");
     });
   });
 
   describe("stopStreaming", () => {
     it("should abort the controller and set isStreaming to false", () => {
       const store = useChatStore.getState();
-      const controller = store.startStreaming();
+      const controller = store.startStreaming(SESSION);
       const abortSpy = vi.spyOn(controller, "abort");
 
-      store.stopStreaming();
+      store.stopStreaming(SESSION);
 
+      const stream = useChatStore.getState().getStream(SESSION);
       expect(abortSpy).toHaveBeenCalled();
-      expect(useChatStore.getState().isStreaming).toBe(false);
-      expect(useChatStore.getState().abortController).toBeNull();
+      expect(stream.isStreaming).toBe(false);
+      expect(stream.abortController).toBeNull();
     });
   });
 
   describe("resetStreaming", () => {
     it("should reset all streaming state", () => {
       const store = useChatStore.getState();
-      store.startStreaming();
-      store.appendContent("test");
-      store.addCitation({
+      store.startStreaming(SESSION);
+      store.appendContent(SESSION, "test");
+      store.addCitation(SESSION, {
         source: "test",
         source_ref: "ref",
         reference: "content",
       });
 
-      store.resetStreaming();
+      store.resetStreaming(SESSION);
+
+      const stream = useChatStore.getState().getStream(SESSION);
+      expect(stream).toBe(IDLE_STREAM);
+      expect(stream.isStreaming).toBe(false);
+      expect(stream.streamingContent).toBe("");
+      expect(stream.streamingCitations).toHaveLength(0);
+      expect(stream.abortController).toBeNull();
+    });
+  });
+
+  describe("setReconnecting", () => {
+    it("should track the reconnect attempt until the stream resumes", () => {
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION);
+
+      store.setReconnecting(SESSION, 2);
+      expect(store.getStream(SESSION).reconnectAttempt).toBe(2);
+
+      store.setReconnecting(SESSION, null);
+      expect(store.getStream(SESSION).reconnectAttempt).toBeNull();
+    });
+  });
+
+  describe("clearStreamedResponse", () => {
+    it("should drop streamed content but keep the stream running", () => {
+      const store = useChatStore.getState();
+      const controller = store.startStreaming(SESSION, { content: "hi" });
+      store.appendContent(SESSION, "partial");
+      store.addToolCallStart(SESSION, "call-1", "get_pools");
+
+      store.clearStreamedResponse(SESSION);
+
+      const stream = useChatStore.getState().getStream(SESSION);
+      expect(stream.streamingContent).toBe("");
+      expect(stream.streamingToolCalls.size).toBe(0);
+      expect(stream.isStreaming).toBe(true);
+      expect(stream.abortController).toBe(controller);
+      expect(stream.request).toEqual({ content: "hi" });
+    });
+  });
+
+  describe("setStalled", () => {
+    it("should flag and clear a stalled stream", () => {
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION, { content: "hi" });
+
+      store.setStalled(SESSION, true);
+      expect(store.getStream(SESSION).isStalled).toBe(true);
+
+      store.setStalled(SESSION, false);
+      expect(store.getStream(SESSION).isStalled).toBe(false);
+      expect(store.getStream(SESSION).request).toEqual({ content: "hi" });
+    });
+
+    it("should not let a replaced stream reset its replacement", () => {
+      const store = useChatStore.getState();
+      const stalledController = store.startStreaming(SESSION, { content: "hi" });
+      store.startStreaming(SESSION, { content: "hi" });
+      store.appendContent(SESSION, "fresh");
+
+      store.resetStreaming(SESSION, stalledController);
+
+      expect(store.getStream(SESSION).streamingContent).toBe("fresh");
+    });
+  });
+
+  describe("concurrent sessions", () => {
+    it("should keep streams for different sessions isolated", () => {
+      const store = useChatStore.getState();
+      store.startStreaming(SESSION);
+      store.startStreaming(OTHER_SESSION);
+      store.appendContent(SESSION, "first");
+      store.appendContent(OTHER_SESSION, "second");
+      store.addToolCallStart(OTHER_SESSION, "call-1", "get_pools");
+
+      expect(store.getStream(SESSION).streamingContent).toBe("first");
+      expect(store.getToolCalls(SESSION)).toHaveLength(0);
+      expect(store.getStream(OTHER_SESSION).streamingContent).toBe("second");
+      expect(store.getToolCalls(OTHER_SESSION)).toHaveLength(1);
+    });
+
+    it("should stop and reset only the targeted session", () => {
+      const store = useChatStore.getState();
+      const controller = store.startStreaming(SESSION);
+      const otherController = store.startStreaming(OTHER_SESSION);
+
+      store.stopStreaming(SESSION);
+      store.resetStreaming(SESSION);
 
-      const state = useChatStore.getState();
-      expect(state.isStreaming).toBe(false);
-      expect(state.streamingContent).toBe("");
-      expect(state.streamingCitations).toHaveLength(0);
-      expect(state.abortController).toBeNull();
+      expect(controller.signal.aborted).toBe(true);
+      expect(otherController.signal.aborted).toBe(false);
+      expect(useChatStore.getState().getStreamingSessionIds()).toEqual([OTHER_SESSION]);
     });
   });
 });
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { getDaysUntilPurge, isPastRetention } from "@/lib/deleted-sessions";
+
+const NOW = new Date("2026-06-30T12:00:00Z");
+
+describe("getDaysUntilPurge", () => {
+  it("should count down from the retention window", () => {
+    expect(getDaysUntilPurge("2026-06-30T12:00:00Z", NOW)).toBe(30);
+    expect(getDaysUntilPurge("2026-06-10T12:00:00Z", NOW)).toBe(10);
+  });
+
+  it("should count a partial day as a whole one", () => {
+    expect(getDaysUntilPurge("2026-05-31T18:00:00Z", NOW)).toBe(1);
+  });
+
+  it("should not go below zero", () => {
+    expect(getDaysUntilPurge("2026-01-01T00:00:00Z", NOW)).toBe(0);
+  });
+});
+
+describe("isPastRetention", () => {
+  it("should be true once the window has passed", () => {
+    expect(isPastRetention("2026-05-31T18:00:00Z", NOW)).toBe(false);
+    expect(isPastRetention("2026-05-31T12:00:00Z", NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import {
+  APIRequestError,
+  BudgetExceededError,
+  ContextTooLongError,
+  RateLimitError,
+  ServerError,
+  createAPIError,
+  formatErrorMessage,
+} from "@/lib/errors";
+import { errorFromResponse } from "@/lib/transport";
+import { getSSEEventHandler } from "@/lib/sse-events";
+import { StreamErrorNotice } from "@/components/chat/stream-error-notice";
+import { useChatStore } from "@/store/chat-store";
+
+vi.mock("@/lib/hooks/use-budget", () => ({
+  useBudget: () => ({ data: undefined, isLoading: true }),
+}));
+
+const SESSION = "session-1";
+
+describe("createAPIError", () => {
+  it("should map backend codes to typed errors", () => {
+    expect(createAPIError("slow down", { code: "rate_limited" })).toBeInstanceOf(RateLimitError);
+    expect(createAPIError("no funds", { code: "budget_exceeded" })).toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(createAPIError("too long", { code: "context_length_exceeded" })).toBeInstanceOf(
+      ContextTooLongError
+    );
+    expect(createAPIError("boom", { code: "internal_error" })).toBeInstanceOf(ServerError);
+  });
+
+  it("should fall back to the HTTP status for unknown codes", () => {
+    expect(createAPIError("x", { status: 429, code: "something_new" })).toBeInstanceOf(
+      RateLimitError
+    );
+    expect(createAPIError("x", { status: 502 })).toBeInstanceOf(ServerError);
+
+    const error = createAPIError("x", { status: 404, code: "not_found" });
+    expect(error.constructor).toBe(APIRequestError);
+    expect(error.code).toBe("not_found");
+  });
+
+  it("should not treat inherited object keys as codes", () => {
+    expect(createAPIError("x", { code: "constructor" }).constructor).toBe(APIRequestError);
+  });
+
+  it("should include the request id in the formatted message", () => {
+    expect(formatErrorMessage(createAPIError("Failed", { requestId: "req-1" }))).toBe(
+      "Failed (request req-1)"
+    );
+    expect(formatErrorMessage(new Error(""), "Fallback")).toBe("Fallback");
+  });
+});
+
+describe("errorFromResponse", () => {
+  it("should read the code, request id and Retry-After", async () => {
+    const error = await errorFromResponse(
+      new Response(JSON.stringify({ error: "Too many requests", code: "rate_limited" }), {
+        status: 429,
+        headers: { "Retry-After": "7", "X-Request-ID": "req-9" },
+      })
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({
+      message: "Too many requests",
+      status: 429,
+      requestId: "req-9",
+      retryAfterMs: 7000,
+    });
+  });
+
+  it("should handle bodies that are not JSON", async () => {
+    const error = await errorFromResponse(new Response("<html>Bad gateway</html>", { status: 502 }));
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.message).toBe("Request failed with status 502");
+  });
+});
+
+describe("error event", () => {
+  it("should pass a typed error to onError", () => {
+    const onError = vi.fn();
+    getSSEEventHandler("error")?.handle(
+      { code: "rate_limited", message: "Slow down", request_id: "req-2", retry_after_ms: 5000 },
+      { onError }
+    );
+
+    const error = onError.mock.calls[0][0];
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ requestId: "req-2", retryAfterMs: 5000 });
+  });
+});
+
+describe("StreamErrorNotice", () => {
+  const onRetry = vi.fn();
+  const onNewChat = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onRetry.mockReset();
+    onNewChat.mockReset();
+    useChatStore.setState({ streams: {}, failures: {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function fail(error: APIRequestError) {
+    useChatStore.getState().setFailure(SESSION, {
+      error,
+      request: { content: "hi" },
+      failedAt: Date.now(),
+    });
+  }
+
+  function renderNotice() {
+    return render(<StreamErrorNotice sessionId={SESSION} onRetry={onRetry} onNewChat={onNewChat} />);
+  }
+
+  it("should count down before allowing a retry after a rate limit", () => {
+    fail(new RateLimitError("Slow down", { retryAfterMs: 3000 }));
+    renderNotice();
+
+    expect(screen.getByTestId("rate-limit-countdown").textContent).toContain("3s");
+    expect(screen.getByTestId("error-retry")).toBeDisabled();
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+    expect(screen.queryByTestId("rate-limit-countdown")).toBeNull();
+
+    fireEvent.click(screen.getByTestId("error-retry"));
+    expect(onRetry).toHaveBeenCalledWith(SESSION, { content: "hi" });
+  });
+
+  it("should offer a new chat when the context is too long", () => {
+    fail(new ContextTooLongError("Too long"));
+    renderNotice();
+
+    fireEvent.click(screen.getByTestId("error-new-chat"));
+    expect(onNewChat).toHaveBeenCalled();
+  });
+
+  it("should offer usage details for budget errors", () => {
+    fail(new BudgetExceededError("Daily budget exceeded"));
+    renderNotice();
+
+    expect(screen.getByTestId("stream-error-notice").textContent).toContain(
+      "Daily budget exceeded"
+    );
+    expect(screen.getByTestId("error-view-usage")).toBeInTheDocument();
+  });
+
+  it("should clear when dismissed or when a new stream starts", () => {
+    fail(new ContextTooLongError("Too long"));
+    renderNotice();
+
+    fireEvent.click(screen.getByLabelText("Dismiss"));
+    expect(screen.queryByTestId("stream-error-notice")).toBeNull();
+
+    act(() => fail(new ContextTooLongError("Too long")));
+    expect(screen.getByTestId("stream-error-notice")).toBeInTheDocument();
+    act(() => {
+      useChatStore.getState().startStreaming(SESSION);
+    });
+    expect(screen.queryByTestId("stream-error-notice")).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectToolOutputs,
+  formatCellValue,
+  getOutputChart,
+  getOutputTable,
+} from "@/lib/explorer";
+import type { Message, ToolCall } from "@/lib/types";
+
+function toolCall(id: string, output?: Record<string, unknown>, error?: string): ToolCall {
+  const status = error ? "error" : "completed";
+  return { id, tool: "mcp__thorchain__get_pools", output, error, status };
+}
+
+function assistant(id: string, toolCalls: ToolCall[]): Message {
+  return {
+    id,
+    role: "assistant",
+    content: "",
+    created_at: "2026-01-01T00:00:00Z",
+    tool_calls: toolCalls,
+  };
+}
+
+const pools = {
+  pools: [
+    { asset: "BTC.BTC", depth: 120, apy: 0.05 },
+    { asset: "ETH.ETH", depth: 80, apy: 0.07 },
+  ],
+};
+
+describe("collectToolOutputs", () => {
+  it("should list completed outputs in order, then those still streaming", () => {
+    const outputs = collectToolOutputs(
+      [
+        assistant("m1", [toolCall("a", { n: 1 }), toolCall("b", undefined, "Timed out")]),
+        assistant("m2", [toolCall("c", { n: 3 })]),
+      ],
+      [toolCall("d", { n: 4 }), { ...toolCall("e"), status: "pending" }]
+    );
+
+    expect(outputs.map((output) => output.id)).toEqual(["a", "c", "d"]);
+  });
+
+  it("should not repeat a streamed output once the message is saved", () => {
+    const saved = toolCall("a", { n: 1 });
+
+    expect(collectToolOutputs([assistant("m1", [saved])], [saved])).toHaveLength(1);
+  });
+});
+
+describe("getOutputTable", () => {
+  it("should read rows from the output's only list", () => {
+    expect(getOutputTable(pools)).toEqual({
+      columns: ["asset", "depth", "apy"],
+      rows: pools.pools,
+    });
+  });
+
+  it("should take columns from every row", () => {
+    expect(getOutputTable([{ a: 1 }, { b: 2 }])?.columns).toEqual(["a", "b"]);
+  });
+
+  it("should not tabulate other shapes", () => {
+    expect(getOutputTable({ price: 1 })).toBeNull();
+    expect(getOutputTable({ a: [{ x: 1 }], b: [{ y: 2 }] })).toBeNull();
+    expect(getOutputTable({ values: [1, 2, 3] })).toBeNull();
+    expect(getOutputTable({ rows: [] })).toBeNull();
+  });
+});
+
+describe("getOutputChart", () => {
+  it("should chart a table's numeric columns against its text column", () => {
+    expect(getOutputChart(pools)).toEqual({
+      type: "chart",
+      chart_type: "bar",
+      chart_data: {
+        x_axis: { label: "asset", data: ["BTC.BTC", "ETH.ETH"] },
+        series: [
+          { name: "depth", data: [120, 80] },
+          { name: "apy", data: [0.05, 0.07] },
+        ],
+      },
+    });
+  });
+
+  it("should use a chart the tool returned as-is", () => {
+    const chart = { chart_type: "line", chart_data: { series: [] } };
+
+    expect(getOutputChart(chart)).toEqual({ ...chart, type: "chart" });
+  });
+
+  it("should not chart a returned chart that fails validation", () => {
+    expect(
+      getOutputChart({ chart_type: "line", chart_data: { series: [{ name: "tvl", data: ["1"] }] } })
+    ).toBeNull();
+    expect(getOutputChart({ chart_type: "radar", chart_data: {} })).toBeNull();
+  });
+
+  it("should not chart tables without a text and a numeric column", () => {
+    expect(getOutputChart({ rows: [{ a: "x", b: "y" }] })).toBeNull();
+    expect(getOutputChart({ rows: [{ a: 1, b: 2 }] })).toBeNull();
+  });
+});
+
+describe("formatCellValue", () => {
+  it("should show nested values as JSON and leave missing ones empty", () => {
+    expect(formatCellValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatCellValue(null)).toBe("");
+    expect(formatCellValue(false)).toBe("false");
+  });
+});
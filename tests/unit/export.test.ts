@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  downloadTextFile,
+  formatSessionAsMarkdown,
+  formatSessionsAsMarkdown,
+  getBulkExportFileName,
+} from "@/lib/export";
+import type { SessionWithMessages } from "@/lib/types";
+
+const session: SessionWithMessages = {
+  id: "session-1",
+  mode: "chat",
+  title: "Pool yields: Q3",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  messages: [
+    { id: "m1", role: "user", content: "Which pool?", created_at: "2026-01-01T00:00:00Z" },
+    {
+      id: "m2",
+      role: "assistant",
+      content: "Pool A.",
+      created_at: "2026-01-01T00:00:01Z",
+      reasoning: "Compare yields.\n\nA is highest.",
+      reasoning_duration_ms: 12000,
+    },
+  ],
+};
+
+describe("formatSessionAsMarkdown", () => {
+  it("should leave reasoning out", () => {
+    expect(formatSessionAsMarkdown(session)).toBe(
+      "# Pool yields: Q3\n\n## You\n\nWhich pool?\n\n## Badlands AI\n\nPool A.\n"
+    );
+  });
+
+  it("should export only the newest branch of a branched conversation", () => {
+    const branched: SessionWithMessages = {
+      ...session,
+      messages: [
+        { id: "m1", role: "user", content: "Which pool?", created_at: "", parent_id: null },
+        { id: "m2", role: "assistant", content: "Pool A.", created_at: "", parent_id: "m1" },
+        { id: "m3", role: "user", content: "Which node?", created_at: "", parent_id: null },
+        { id: "m4", role: "assistant", content: "Node B.", created_at: "", parent_id: "m3" },
+      ],
+    };
+
+    expect(formatSessionAsMarkdown(branched)).toBe(
+      "# Pool yields: Q3\n\n## You\n\nWhich node?\n\n## Badlands AI\n\nNode B.\n"
+    );
+  });
+});
+
+describe("formatSessionsAsMarkdown", () => {
+  it("should separate conversations with a horizontal rule", () => {
+    const other = { ...session, title: "Node uptime", messages: [] };
+
+    expect(formatSessionsAsMarkdown([session, other])).toBe(
+      `${formatSessionAsMarkdown(session)}\n---\n\n# Node uptime\n`
+    );
+  });
+});
+
+describe("getBulkExportFileName", () => {
+  it("should date the file name", () => {
+    expect(getBulkExportFileName(new Date(2026, 2, 5))).toBe("badlands-chats-2026-03-05.md");
+  });
+});
+
+describe("downloadTextFile", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("should keep the file URL until the download has started", () => {
+    vi.useFakeTimers();
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal("URL", { createObjectURL: () => "blob:chat", revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+    downloadTextFile("chat.md", "# Chat");
+
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    expect(document.querySelector("a[download='chat.md']")).not.toBeNull();
+
+    vi.runAllTimers();
+
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:chat");
+    expect(document.querySelector("a[download='chat.md']")).toBeNull();
+    click.mockRestore();
+  });
+});
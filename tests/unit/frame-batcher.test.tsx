@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, act } from "@testing-library/react";
+import { createFrameBatcher } from "@/lib/frame-batcher";
+import { useChatStore, useSessionStream } from "@/store/chat-store";
+
+const SESSION = "session-1";
+
+describe("createFrameBatcher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should deliver queued text once per frame", () => {
+    const onFlush = vi.fn();
+    const batcher = createFrameBatcher(onFlush);
+
+    batcher.push("Hello");
+    batcher.push(" ");
+    batcher.push("World");
+    expect(onFlush).not.toHaveBeenCalled();
+
+    vi.advanceTimersToNextFrame();
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith("Hello World");
+  });
+
+  it("should flush immediately on demand and skip the pending frame", () => {
+    const onFlush = vi.fn();
+    const batcher = createFrameBatcher(onFlush);
+
+    batcher.push("partial");
+    batcher.flush();
+    expect(onFlush).toHaveBeenCalledWith("partial");
+
+    vi.advanceTimersToNextFrame();
+    expect(onFlush).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop queued text on cancel", () => {
+    const onFlush = vi.fn();
+    const batcher = createFrameBatcher(onFlush);
+
+    batcher.push("discarded");
+    batcher.cancel();
+    vi.advanceTimersToNextFrame();
+
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
+
+describe("streaming render count", () => {
+  const DELTAS = 100;
+  const DELTAS_PER_FRAME = 10;
+  let renders = 0;
+
+  function StreamProbe() {
+    const stream = useSessionStream(SESSION);
+    renders++;
+    return <div data-testid="probe">{stream.streamingContent}</div>;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useChatStore.setState({ streams: {} });
+    useChatStore.getState().startStreaming(SESSION);
+    renders = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Delivers each delta as its own task, the way SSE chunks arrive from
+   * the network, advancing one frame after every DELTAS_PER_FRAME deltas.
+   */
+  async function deliverDeltas(onContent: (text: string) => void) {
+    for (let i = 0; i < DELTAS; i++) {
+      await act(async () => {
+        onContent(`t${i} `);
+      });
+      if ((i + 1) % DELTAS_PER_FRAME === 0) {
+        await act(async () => {
+          vi.advanceTimersToNextFrame();
+        });
+      }
+    }
+  }
+
+  it("should render once per delta without batching", async () => {
+    const { getByTestId } = render(<StreamProbe />);
+    renders = 0;
+
+    await deliverDeltas((text) => useChatStore.getState().appendContent(SESSION, text));
+
+    expect(renders).toBe(DELTAS);
+    expect(getByTestId("probe").textContent).toContain("t99");
+  });
+
+  it("should render once per frame with batching", async () => {
+    const { getByTestId } = render(<StreamProbe />);
+    renders = 0;
+
+    const batcher = createFrameBatcher((text) =>
+      useChatStore.getState().appendContent(SESSION, text)
+    );
+    await deliverDeltas((text) => batcher.push(text));
+
+    expect(renders).toBe(DELTAS / DELTAS_PER_FRAME);
+    expect(getByTestId("probe").textContent).toContain("t99");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseMarkdownToBlocks,
+  createIncrementalMarkdownParser,
+} from "@/lib/markdown-parser";
+
+const SAMPLE = [
+  "# Title",
+  "",
+  "First paragraph with **bold** text",
+  "that spans two lines.",
+  "",
+  "```ts",
+  "const a = 1;",
+  "",
+  "const b = 2;",
+  "```",
+  "",
+  "| Name | Value |",
+  "| --- | --- |",
+  "| a | 1 |",
+  "",
+  "- one",
+  "- two",
+  "",
+  "---",
+  "> quoted",
+  "",
+  "Last paragraph",
+].join("\n");
+
+/** Feeds markdown to a parser in fixed-size chunks, like a token stream. */
+function streamInChunks(markdown: string, chunkSize: number) {
+  const parser = createIncrementalMarkdownParser();
+  let result = parser.update("");
+  for (let end = chunkSize; end < markdown.length + chunkSize; end += chunkSize) {
+    result = parser.update(markdown.slice(0, end));
+  }
+  return result;
+}
+
+describe("createIncrementalMarkdownParser", () => {
+  it.each([1, 3, 7, 50])("should match a full parse when streamed in %i-char chunks", (size) => {
+    const { blocks, pending } = streamInChunks(SAMPLE, size);
+
+    expect([...blocks, ...parseMarkdownToBlocks(pending)]).toEqual(
+      parseMarkdownToBlocks(SAMPLE)
+    );
+  });
+
+  it("should keep frozen block references stable as content grows", () => {
+    const parser = createIncrementalMarkdownParser();
+    const first = parser.update("Hello world\n\nSecond");
+    const second = parser.update("Hello world\n\nSecond paragraph\n\nThird");
+
+    expect(first.blocks).toHaveLength(1);
+    expect(second.blocks).toHaveLength(2);
+    expect(second.blocks[0]).toBe(first.blocks[0]);
+    expect(second.pending).toBe("Third");
+  });
+
+  it("should return the same blocks array when nothing new completes", () => {
+    const parser = createIncrementalMarkdownParser();
+    const first = parser.update("Done\n\nStill typ");
+    const second = parser.update("Done\n\nStill typing");
+
+    expect(second.blocks).toBe(first.blocks);
+  });
+
+  it("should keep an open code fence pending across blank lines", () => {
+    const parser = createIncrementalMarkdownParser();
+    const open = parser.update("```py\nx = 1\n\ny = 2\n");
+
+    expect(open.blocks).toEqual([]);
+    expect(open.pending).toBe("```py\nx = 1\n\ny = 2\n");
+
+    const closed = parser.update("```py\nx = 1\n\ny = 2\n```\n");
+    expect(closed.blocks).toEqual([{ type: "code", code: "x = 1\n\ny = 2", language: "py" }]);
+    expect(closed.pending).toBe("");
+  });
+
+  it("should not freeze a heading until its line is terminated", () => {
+    const parser = createIncrementalMarkdownParser();
+
+    expect(parser.update("## Sect").blocks).toEqual([]);
+    expect(parser.update("## Section\n").blocks).toEqual([
+      { type: "heading", level: 2, text: "Section" },
+    ]);
+  });
+
+  it("should start over when the content is replaced", () => {
+    const parser = createIncrementalMarkdownParser();
+    parser.update("Old answer\n\n");
+    const { blocks, pending } = parser.update("New");
+
+    expect(blocks).toEqual([]);
+    expect(pending).toBe("New");
+  });
+});
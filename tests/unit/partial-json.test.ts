@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { parsePartialJSON } from "@/lib/partial-json";
+
+describe("parsePartialJSON", () => {
+  it("should parse complete documents as-is", () => {
+    expect(parsePartialJSON('{"a": [1, 2], "b": "x"}')).toEqual({ a: [1, 2], b: "x" });
+  });
+
+  it.each([
+    ['{"query": "pool yi', { query: "pool yi" }],
+    ['{"query": "x", "limit": 1', { query: "x", limit: 1 }],
+    ['{"ids": [1, 2', { ids: [1, 2] }],
+    ['{"filter": {"chain": "eth"', { filter: { chain: "eth" } }],
+    ['{"query": "x", "lim', { query: "x" }],
+    ['{"query": "x", "limit": ', { query: "x" }],
+    ['{"flag": tr', {}],
+    ['{"path": "C:\\', { path: "C:" }],
+    ["{", {}],
+  ])("should complete %s", (text, expected) => {
+    expect(parsePartialJSON(text)).toEqual(expected);
+  });
+
+  it("should return undefined when nothing can be parsed", () => {
+    expect(parsePartialJSON("")).toBeUndefined();
+    expect(parsePartialJSON("nul")).toBeUndefined();
+  });
+
+  it("should close a top-level string", () => {
+    expect(parsePartialJSON('"unterminated')).toBe("unterminated");
+  });
+});
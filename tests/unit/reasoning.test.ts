@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from "vitest";
+import { formatReasoningDuration } from "@/lib/reasoning";
+import { getSSEEventHandler } from "@/lib/sse-events";
+
+describe("reasoning_delta event", () => {
+  it("should pass reasoning text to onReasoning", () => {
+    const onReasoning = vi.fn();
+    const handler = getSSEEventHandler("reasoning_delta");
+
+    expect(handler?.schema({ text: "Let me check" }, "data")).toBeNull();
+    handler?.handle({ text: "Let me check" }, { onReasoning });
+
+    expect(onReasoning).toHaveBeenCalledWith("Let me check");
+  });
+
+  it("should reject payloads without text", () => {
+    expect(getSSEEventHandler("reasoning_delta")?.schema({}, "data")).toBe(
+      "data.text: expected string, got undefined"
+    );
+  });
+});
+
+describe("formatReasoningDuration", () => {
+  it.each([
+    [undefined, "Thought"],
+    [300, "Thought for a moment"],
+    [12000, "Thought for 12s"],
+    [65000, "Thought for 1m 5s"],
+    [120000, "Thought for 2m"],
+  ])("should format %s ms as %s", (ms, label) => {
+    expect(formatReasoningDuration(ms)).toBe(label);
+  });
+});
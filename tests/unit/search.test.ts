@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { getSearchTerms, highlightTerms, matchesTitle } from "@/lib/search";
+import type { Session } from "@/lib/types";
+
+function makeSession(title?: string): Session {
+  return {
+    id: "session-1",
+    mode: "chat",
+    title,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  };
+}
+
+describe("getSearchTerms", () => {
+  it("should split the query into unique lowercase terms", () => {
+    expect(getSearchTerms("  BTC pool  btc ")).toEqual(["btc", "pool"]);
+  });
+});
+
+describe("matchesTitle", () => {
+  it("should require every term, in any order and case", () => {
+    expect(matchesTitle(makeSession("BTC pool yields"), "yields btc")).toBe(true);
+    expect(matchesTitle(makeSession("BTC pool yields"), "eth pool")).toBe(false);
+  });
+
+  it("should match untitled sessions by their displayed name", () => {
+    expect(matchesTitle(makeSession(), "new chat")).toBe(true);
+  });
+});
+
+describe("highlightTerms", () => {
+  it("should mark every occurrence of each term", () => {
+    expect(highlightTerms("The BTC pool beats the ETH pool", "pool btc")).toEqual([
+      { text: "The ", match: false },
+      { text: "BTC", match: true },
+      { text: " ", match: false },
+      { text: "pool", match: true },
+      { text: " beats the ETH ", match: false },
+      { text: "pool", match: true },
+    ]);
+  });
+
+  it("should prefer the longer of two overlapping terms", () => {
+    expect(highlightTerms("pools", "pool pools")).toEqual([{ text: "pools", match: true }]);
+  });
+
+  it("should treat regex characters in the query literally", () => {
+    expect(highlightTerms("cost (usd)", "(usd)")).toEqual([
+      { text: "cost ", match: false },
+      { text: "(usd)", match: true },
+    ]);
+  });
+
+  it("should return the text unmarked for an empty query", () => {
+    expect(highlightTerms("anything", "  ")).toEqual([{ text: "anything", match: false }]);
+  });
+});
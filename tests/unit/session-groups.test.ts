@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { groupSessions, groupSessionsByFolder } from "@/lib/session-groups";
+import type { Folder, Session } from "@/lib/types";
+
+// Local time, so calendar days match the grouping
+const NOW = new Date(2026, 5, 15, 9, 30);
+
+function makeSession(id: string, updatedAt: Date, pinned?: boolean): Session {
+  return {
+    id,
+    mode: "chat",
+    created_at: new Date(2026, 0, 1).toISOString(),
+    updated_at: updatedAt.toISOString(),
+    pinned,
+  };
+}
+
+function summarize(sessions: Session[]) {
+  return groupSessions(sessions, NOW).map((group) => [
+    group.label,
+    group.sessions.map((session) => session.id),
+  ]);
+}
+
+describe("groupSessions", () => {
+  it("should group by calendar day of the last update", () => {
+    expect(
+      summarize([
+        makeSession("early-today", new Date(2026, 5, 15, 0, 5)),
+        makeSession("late-yesterday", new Date(2026, 5, 14, 23, 55)),
+        makeSession("week-ago", new Date(2026, 5, 8, 12)),
+        makeSession("eight-days-ago", new Date(2026, 5, 7, 12)),
+      ])
+    ).toEqual([
+      ["Today", ["early-today"]],
+      ["Yesterday", ["late-yesterday"]],
+      ["Previous 7 days", ["week-ago"]],
+      ["Older", ["eight-days-ago"]],
+    ]);
+  });
+
+  it("should list pinned sessions first whatever their date", () => {
+    expect(
+      summarize([
+        makeSession("today", new Date(2026, 5, 15, 8)),
+        makeSession("old-pinned", new Date(2025, 0, 1), true),
+      ])
+    ).toEqual([
+      ["Pinned", ["old-pinned"]],
+      ["Today", ["today"]],
+    ]);
+  });
+
+  it("should keep the given order within a group and skip empty groups", () => {
+    expect(
+      summarize([
+        makeSession("b", new Date(2026, 5, 15, 8)),
+        makeSession("a", new Date(2026, 5, 15, 9)),
+      ])
+    ).toEqual([["Today", ["b", "a"]]]);
+  });
+});
+
+describe("groupSessionsByFolder", () => {
+  const folders: Folder[] = [
+    { id: "pools", name: "Pool analysis", created_at: "2026-01-01T00:00:00Z" },
+    { id: "nodes", name: "Node ops", created_at: "2026-01-01T00:00:00Z" },
+  ];
+
+  function inFolder(id: string, folderId?: string | null): Session {
+    return { ...makeSession(id, NOW), folder_id: folderId };
+  }
+
+  it("should split sessions into their folders, in folder order", () => {
+    const { folders: groups, unfiled } = groupSessionsByFolder(
+      [inFolder("a", "nodes"), inFolder("b"), inFolder("c", "pools"), inFolder("d", null)],
+      folders
+    );
+
+    expect(groups.map((group) => [group.folder.id, group.sessions.map((s) => s.id)])).toEqual([
+      ["pools", ["c"]],
+      ["nodes", ["a"]],
+    ]);
+    expect(unfiled.map((s) => s.id)).toEqual(["b", "d"]);
+  });
+
+  it("should treat sessions in an unknown folder as unfiled", () => {
+    const { folders: groups, unfiled } = groupSessionsByFolder([inFolder("a", "deleted")], folders);
+
+    expect(groups.every((group) => group.sessions.length === 0)).toBe(true);
+    expect(unfiled.map((s) => s.id)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { streamMessage } from "@/lib/streaming";
+import { registerSSEEventHandler, getSSEEventHandler } from "@/lib/sse-events";
+import { number, object, string } from "@/lib/validation";
+
+declare module "@/lib/sse-events" {
+  interface SSEEventMap {
+    test_note: { note: string };
+  }
+}
+
+function sseResponse(events: [string, unknown][]): Response {
+  const body = events
+    .map(([type, data]) => `event: ${type}\ndata: ${JSON.stringify({ type, data })}\n\n`)
+    .join("");
+  return new Response(body, { status: 200 });
+}
+
+describe("SSE event registry", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should register handlers for the built-in events", () => {
+    for (const type of ["content", "content_block", "tool_call_start", "done", "error"]) {
+      expect(getSSEEventHandler(type)).toBeDefined();
+    }
+    expect(getSSEEventHandler("done")?.terminal).toBe(true);
+    expect(getSSEEventHandler("content")?.terminal).toBeFalsy();
+  });
+
+  it("should dispatch events of a registered type to its handler", async () => {
+    const handle = vi.fn();
+    const unregister = registerSSEEventHandler("test_note", {
+      schema: object({ note: string }),
+      handle,
+    });
+    fetchMock.mockResolvedValueOnce(
+      sseResponse([
+        ["test_note", { note: "hello" }],
+        ["done", { message_id: "msg-1" }],
+      ])
+    );
+
+    const callbacks = { onDone: vi.fn() };
+    await streamMessage("session-1", { content: "hi" }, callbacks);
+    unregister();
+
+    expect(handle).toHaveBeenCalledWith({ note: "hello" }, callbacks);
+    expect(callbacks.onDone).toHaveBeenCalledWith("msg-1");
+    expect(getSSEEventHandler("test_note")).toBeUndefined();
+  });
+
+  it("should not remove a handler that replaced the unregistered one", () => {
+    const unregisterFirst = registerSSEEventHandler("test_note", {
+      schema: object({ note: string }),
+      handle: vi.fn(),
+    });
+    const unregisterSecond = registerSSEEventHandler("test_note", {
+      schema: object({ note: string }),
+      handle: vi.fn(),
+    });
+
+    unregisterFirst();
+    expect(getSSEEventHandler("test_note")).toBeDefined();
+    unregisterSecond();
+    expect(getSSEEventHandler("test_note")).toBeUndefined();
+  });
+
+  it("should only accept a schema that checks the event's payload type", () => {
+    const unregister = registerSSEEventHandler("test_note", {
+      // @ts-expect-error -- the schema checks a number, the payload has a string
+      schema: object({ note: number }),
+      handle: vi.fn(),
+    });
+    unregister();
+  });
+
+  it("should pass optional fields sent as null to callbacks as undefined", async () => {
+    fetchMock.mockResolvedValueOnce(
+      sseResponse([
+        ["progress", { phase: "thinking", started_at: 1, tool_name: null, iteration: null }],
+        ["tool_call_end", { id: "call-1", tool: "get_pools", output: null, error: null }],
+      ])
+    );
+
+    const onProgress = vi.fn();
+    const onToolCallEnd = vi.fn();
+    await streamMessage("session-1", { content: "hi" }, { onProgress, onToolCallEnd });
+
+    expect(onProgress).toHaveBeenCalledWith("thinking", 1, undefined, undefined);
+    expect(onToolCallEnd).toHaveBeenCalledWith("call-1", "get_pools", undefined, undefined);
+  });
+
+  it("should ignore events without a registered handler", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(
+      sseResponse([
+        ["test_note", { note: "ignored" }],
+        ["content", { text: "Hello" }],
+      ])
+    );
+
+    const onContent = vi.fn();
+    await streamMessage("session-1", { content: "hi" }, { onContent });
+
+    expect(warn).toHaveBeenCalledWith("Unknown SSE event type: test_note");
+    expect(onContent).toHaveBeenCalledWith("Hello");
+    warn.mockRestore();
+  });
+});
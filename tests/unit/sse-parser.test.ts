@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import { createSSEParser, type SSEMessage } from "@/lib/sse-parser";
+
+function parseAll(input: string | string[]) {
+  const events: SSEMessage[] = [];
+  const retries: number[] = [];
+  const comments: string[] = [];
+  const parser = createSSEParser({
+    onEvent: (message) => events.push(message),
+    onRetry: (ms) => retries.push(ms),
+    onComment: (comment) => comments.push(comment),
+  });
+  for (const chunk of Array.isArray(input) ? input : [input]) {
+    parser.feed(chunk);
+  }
+  return { events, retries, comments };
+}
+
+describe("createSSEParser", () => {
+  describe("WHATWG examples", () => {
+    it("should join multiple data lines with newlines", () => {
+      const { events } = parseAll("data: YHOO\ndata: +2\ndata: 10\n\n");
+
+      expect(events).toEqual([{ event: "message", data: "YHOO\n+2\n10", id: "" }]);
+    });
+
+    it("should handle comments, ids and the final unterminated event", () => {
+      const { events, comments } = parseAll(
+        ": test stream\n\ndata: first event\nid: 1\n\ndata:second event\nid\n\ndata:  third event\n"
+      );
+
+      expect(comments).toEqual(["test stream"]);
+      expect(events).toEqual([
+        { event: "message", data: "first event", id: "1" },
+        { event: "message", data: "second event", id: "" },
+      ]);
+    });
+
+    it("should dispatch empty data fields", () => {
+      const { events } = parseAll("data\n\ndata\ndata\n\ndata:");
+
+      expect(events.map((e) => e.data)).toEqual(["", "\n"]);
+    });
+
+    it("should strip only a single leading space from values", () => {
+      const { events } = parseAll("data:test\n\ndata: test\n\ndata:  test\n\n");
+
+      expect(events.map((e) => e.data)).toEqual(["test", "test", " test"]);
+    });
+  });
+
+  describe("framing", () => {
+    it("should accept CRLF and CR line endings", () => {
+      const { events } = parseAll("event: a\r\ndata: 1\r\n\r\nevent: b\rdata: 2\r\r");
+
+      expect(events).toEqual([
+        { event: "a", data: "1", id: "" },
+        { event: "b", data: "2", id: "" },
+      ]);
+    });
+
+    it("should handle chunks split mid-line and between CR and LF", () => {
+      const { events } = parseAll(["ev", "ent: content\r", "\ndata: {\"a\"", ":1}\r", "\n\r", "\n"]);
+
+      expect(events).toEqual([{ event: "content", data: '{"a":1}', id: "" }]);
+    });
+
+    it("should strip a leading byte order mark", () => {
+      const { events } = parseAll("\uFEFFdata: hi\n\n");
+
+      expect(events).toEqual([{ event: "message", data: "hi", id: "" }]);
+    });
+
+    it("should not dispatch events without data", () => {
+      const { events } = parseAll("event: ping\n\nid: 5\n\n");
+
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe("fields", () => {
+    it("should carry the last event id forward", () => {
+      const { events } = parseAll("id: 7\ndata: a\n\ndata: b\n\n");
+
+      expect(events.map((e) => e.id)).toEqual(["7", "7"]);
+    });
+
+    it("should ignore ids containing NULL", () => {
+      const { events } = parseAll("id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n");
+
+      expect(events.map((e) => e.id)).toEqual(["1", "1"]);
+    });
+
+    it("should report only numeric retry values", () => {
+      const { retries } = parseAll("retry: 3000\n\nretry: soon\n\nretry: 10s\n\n");
+
+      expect(retries).toEqual([3000]);
+    });
+
+    it("should ignore unknown fields", () => {
+      const { events } = parseAll("foo: bar\ndata: x\n\n");
+
+      expect(events).toEqual([{ event: "message", data: "x", id: "" }]);
+    });
+
+    it("should preserve leading whitespace inside JSON payloads", () => {
+      const { events } = parseAll('data: {"text":\ndata:   "  indented"}\n\n');
+
+      expect(JSON.parse(events[0].data)).toEqual({ text: "  indented" });
+    });
+  });
+
+  it("should discard buffered state on reset", () => {
+    const onEvent = vi.fn();
+    const parser = createSSEParser({ onEvent });
+
+    parser.feed("event: a\ndata: partial");
+    parser.reset();
+    parser.feed("data: fresh\n\n");
+
+    expect(onEvent).toHaveBeenCalledWith({ event: "message", data: "fresh", id: "" });
+  });
+});
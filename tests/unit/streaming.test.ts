@@ -0,0 +1,393 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createStreamResumer, streamMessage } from "@/lib/streaming";
+import { reportInvalidPayload } from "@/lib/sentry";
+import { APIRequestError, BudgetExceededError } from "@/lib/errors";
+
+vi.mock("@/lib/sentry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sentry")>()),
+  reportInvalidPayload: vi.fn(),
+}));
+
+/**
+ * Builds a streaming Response that emits the given chunks, then either
+ * closes cleanly or fails as a dropped connection would.
+ */
+function sseResponse(chunks: string[], options: { drop?: boolean } = {}): Response {
+  const encoder = new TextEncoder();
+  const pending = [...chunks];
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = pending.shift();
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+      } else if (options.drop) {
+        controller.error(new TypeError("network error"));
+      } else {
+        controller.close();
+      }
+    },
+  });
+  return new Response(stream, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+/**
+ * Builds a streaming Response whose chunks are pushed manually by the test.
+ */
+function controllableResponse() {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  return {
+    response: new Response(stream, { status: 200 }),
+    push: (chunk: string) => controller.enqueue(encoder.encode(chunk)),
+    close: () => controller.close(),
+  };
+}
+
+function sseEvent(type: string, data: unknown, id?: string): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}event: ${type}\ndata: ${JSON.stringify({ type, data })}\n\n`;
+}
+
+describe("streamMessage", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("should dispatch content and done events", async () => {
+    fetchMock.mockResolvedValueOnce(
+      sseResponse([
+        sseEvent("content", { text: "Hello" }),
+        sseEvent("content", { text: " World" }),
+        sseEvent("done", { message_id: "msg-1" }),
+      ])
+    );
+
+    const onContent = vi.fn();
+    const onDone = vi.fn();
+    await streamMessage("session-1", { content: "hi" }, { onContent, onDone });
+
+    expect(onContent.mock.calls.map(([text]) => text)).toEqual(["Hello", " World"]);
+    expect(onDone).toHaveBeenCalledWith("msg-1");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop and report events that fail validation", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(
+      sseResponse([
+        sseEvent("content_block", { index: 0, block: { type: "table", headers: "Name" } }),
+        sseEvent("content", { text: 42 }),
+        sseEvent("content_block", { index: 1, block: { type: "hr" } }),
+        sseEvent("done", { message_id: "msg-1" }),
+      ])
+    );
+
+    const onContent = vi.fn();
+    const onContentBlock = vi.fn();
+    const onDone = vi.fn();
+    await streamMessage("session-1", { content: "hi" }, { onContent, onContentBlock, onDone });
+
+    expect(onContent).not.toHaveBeenCalled();
+    expect(onContentBlock).toHaveBeenCalledTimes(1);
+    expect(onContentBlock).toHaveBeenCalledWith(1, { type: "hr" });
+    expect(onDone).toHaveBeenCalledWith("msg-1");
+    expect(reportInvalidPayload).toHaveBeenCalledWith(
+      "sse.content_block",
+      "data.block.headers: expected array, got string",
+      { index: 0, block: { type: "table", headers: "Name" } }
+    );
+    expect(reportInvalidPayload).toHaveBeenCalledWith(
+      "sse.content",
+      "data.text: expected string, got number",
+      { text: 42 }
+    );
+    warn.mockRestore();
+  });
+
+  it("should resume from the last event id after a dropped connection", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        sseResponse(
+          [
+            sseEvent("content", { text: "Hello" }, "1"),
+            sseEvent("tool_call_start", { id: "call-1", tool: "get_pools" }, "2"),
+          ],
+          { drop: true }
+        )
+      )
+      .mockResolvedValueOnce(
+        sseResponse([
+          // Replayed events must not be delivered twice
+          sseEvent("tool_call_start", { id: "call-1", tool: "get_pools" }, "2"),
+          sseEvent("content", { text: " World" }, "3"),
+          sseEvent("done", { message_id: "msg-1" }, "4"),
+        ])
+      );
+
+    const onContent = vi.fn();
+    const onToolCallStart = vi.fn();
+    const onReconnect = vi.fn();
+    const onReconnected = vi.fn();
+    const onDone = vi.fn();
+    await streamMessage(
+      "session-1",
+      { content: "hi" },
+      { onContent, onToolCallStart, onReconnect, onReconnected, onDone }
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [resumeUrl, resumeInit] = fetchMock.mock.calls[1];
+    expect(resumeUrl).toContain("/v1/sessions/session-1/messages/resume");
+    expect(resumeInit.headers["Last-Event-ID"]).toBe("2");
+
+    expect(onContent.mock.calls.map(([text]) => text)).toEqual(["Hello", " World"]);
+    expect(onToolCallStart).toHaveBeenCalledTimes(1);
+    expect(onReconnect).toHaveBeenCalledWith(1, "2");
+    expect(onReconnected).toHaveBeenCalledTimes(1);
+    expect(onDone).toHaveBeenCalledWith("msg-1");
+  });
+
+  it("should honor the retry field when scheduling a reconnect", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        sseResponse(["retry: 5000\n", sseEvent("content", { text: "Hi" }, "1")])
+      )
+      .mockResolvedValueOnce(sseResponse([sseEvent("done", { message_id: "msg-1" }, "2")]));
+
+    const promise = streamMessage("session-1", { content: "hi" }, {});
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await promise;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up after the maximum number of reconnect attempts", async () => {
+    fetchMock
+      .mockResolvedValueOnce(sseResponse([sseEvent("content", { text: "Hi" }, "1")], { drop: true }))
+      .mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const promise = streamMessage("session-1", { content: "hi" }, {});
+    const assertion = expect(promise).rejects.toThrow("Failed to fetch");
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    // Initial request plus five reconnect attempts
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it("should treat a clean close without event ids as completion", async () => {
+    fetchMock.mockResolvedValueOnce(sseResponse([sseEvent("content", { text: "Hi" })]));
+
+    const onContent = vi.fn();
+    await streamMessage("session-1", { content: "hi" }, { onContent });
+
+    expect(onContent).toHaveBeenCalledWith("Hi");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject with a typed error when the request is refused", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ error: "Budget exceeded", code: "budget_exceeded" }), {
+        status: 402,
+      })
+    );
+
+    await expect(streamMessage("session-1", { content: "hi" }, {})).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop reconnecting when aborted", async () => {
+    fetchMock.mockResolvedValueOnce(
+      sseResponse([sseEvent("content", { text: "Hi" }, "1")], { drop: true })
+    );
+
+    const controller = new AbortController();
+    const promise = streamMessage("session-1", { content: "hi" }, {}, controller.signal);
+    const assertion = expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await assertion;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  describe("resumer", () => {
+    it("should resume from the last event id on a new connection right away", async () => {
+      const { response, push } = controllableResponse();
+      fetchMock
+        .mockResolvedValueOnce(response)
+        .mockResolvedValueOnce(
+          sseResponse([
+            sseEvent("content", { text: "Hello" }, "1"),
+            sseEvent("content", { text: " World" }, "2"),
+            sseEvent("done", { message_id: "msg-1" }, "3"),
+          ])
+        );
+
+      const resumer = createStreamResumer();
+      const onContent = vi.fn();
+      const onDone = vi.fn();
+      const promise = streamMessage(
+        "session-1",
+        { content: "hi" },
+        { onContent, onDone },
+        undefined,
+        { resumer }
+      );
+
+      push(sseEvent("content", { text: "Hello" }, "1"));
+      await vi.advanceTimersByTimeAsync(0);
+      resumer.resume();
+      await promise;
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [resumeUrl, resumeInit] = fetchMock.mock.calls[1];
+      expect(resumeUrl).toContain("/v1/sessions/session-1/messages/resume");
+      expect(resumeInit.headers["Last-Event-ID"]).toBe("1");
+      expect(onContent.mock.calls.map(([text]) => text)).toEqual(["Hello", " World"]);
+      expect(onDone).toHaveBeenCalledWith("msg-1");
+    });
+
+    it("should give up on a request still waiting for a response and resume", async () => {
+      fetchMock
+        .mockImplementationOnce(
+          (_url: string, init: RequestInit) =>
+            new Promise((_, reject) => {
+              init.signal?.addEventListener("abort", () =>
+                reject(new DOMException("The operation was aborted.", "AbortError"))
+              );
+            })
+        )
+        .mockResolvedValueOnce(
+          sseResponse([
+            sseEvent("content", { text: "Hello" }, "1"),
+            sseEvent("done", { message_id: "msg-1" }, "2"),
+          ])
+        );
+
+      const resumer = createStreamResumer();
+      const onContent = vi.fn();
+      const onDone = vi.fn();
+      const promise = streamMessage(
+        "session-1",
+        { content: "hi" },
+        { onContent, onDone },
+        undefined,
+        { resumer }
+      );
+
+      await vi.advanceTimersByTimeAsync(0);
+      resumer.resume();
+      await promise;
+
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+      const [resumeUrl, resumeInit] = fetchMock.mock.calls[1];
+      expect(resumeUrl).toContain("/v1/sessions/session-1/messages/resume");
+      expect(resumeInit.headers["Last-Event-ID"]).toBe("");
+      expect(onContent).toHaveBeenCalledWith("Hello");
+      expect(onDone).toHaveBeenCalledWith("msg-1");
+    });
+
+    it("should reject when the response to resume is gone", async () => {
+      const { response } = controllableResponse();
+      fetchMock
+        .mockResolvedValueOnce(response)
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ error: "No response to resume", code: "not_found" }), {
+            status: 404,
+          })
+        );
+
+      const resumer = createStreamResumer();
+      const promise = streamMessage("session-1", { content: "hi" }, {}, undefined, { resumer });
+      const assertion = expect(promise).rejects.toMatchObject({ status: 404 });
+      await vi.advanceTimersByTimeAsync(0);
+      resumer.resume();
+
+      await assertion;
+      await expect(promise).rejects.toBeInstanceOf(APIRequestError);
+      expect(resumer.requested).toBe(true);
+    });
+  });
+
+  describe("stall watchdog", () => {
+    it("should report a stall after the idle timeout and recover on keep-alive comments", async () => {
+      const { response, push, close } = controllableResponse();
+      fetchMock.mockResolvedValueOnce(response);
+
+      const onStall = vi.fn();
+      const onStallRecovered = vi.fn();
+      const promise = streamMessage(
+        "session-1",
+        { content: "hi" },
+        { onStall, onStallRecovered },
+        undefined,
+        { stallTimeoutMs: 10000 }
+      );
+
+      push(sseEvent("content", { text: "Hi" }));
+      await vi.advanceTimersByTimeAsync(9000);
+      expect(onStall).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onStall).toHaveBeenCalledTimes(1);
+      expect(onStall.mock.calls[0][0]).toBeGreaterThanOrEqual(10000);
+
+      push(": keep-alive\n\n");
+      await vi.advanceTimersByTimeAsync(0);
+      expect(onStallRecovered).toHaveBeenCalledTimes(1);
+
+      push(sseEvent("done", { message_id: "msg-1" }));
+      close();
+      await promise;
+      expect(onStall).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep reporting while the stream stays idle", async () => {
+      const { response, push, close } = controllableResponse();
+      fetchMock.mockResolvedValueOnce(response);
+
+      const onStall = vi.fn();
+      const promise = streamMessage(
+        "session-1",
+        { content: "hi" },
+        { onStall },
+        undefined,
+        { stallTimeoutMs: 5000 }
+      );
+
+      await vi.advanceTimersByTimeAsync(15000);
+      expect(onStall).toHaveBeenCalledTimes(3);
+
+      push(sseEvent("done", { message_id: "msg-1" }));
+      close();
+      await promise;
+
+      // The watchdog is stopped once the stream completes
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(onStall).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { broadcast, closeTabSync, subscribeToTabs, type TabSyncMessage } from "@/lib/tab-sync";
+import { authFetch, syncRefreshAcrossTabs } from "@/lib/transport";
+import { syncSessionsAcrossTabs } from "@/lib/hooks/use-sessions";
+
+function isRefresh(url: string) {
+  return url.endsWith("/v1/auth/refresh");
+}
+
+describe("tab sync", () => {
+  // Stands in for another open tab
+  let otherTab: BroadcastChannel;
+  let received: TabSyncMessage[];
+
+  beforeEach(() => {
+    otherTab = new BroadcastChannel("badlands-tab-sync");
+    received = [];
+    otherTab.onmessage = (event) => received.push(event.data);
+  });
+
+  afterEach(() => {
+    otherTab.close();
+    closeTabSync();
+    vi.unstubAllGlobals();
+  });
+
+  it("should exchange messages with other tabs", async () => {
+    const listener = vi.fn();
+    subscribeToTabs(listener);
+
+    broadcast({ type: "logged_out" });
+    otherTab.postMessage({ type: "logged_in" });
+
+    await vi.waitFor(() => expect(received).toEqual([{ type: "logged_out" }]));
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: "logged_in" }));
+  });
+
+  it("should announce its own session refresh", async () => {
+    // Only the first request is unauthorized
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 401 }))
+      .mockResolvedValue(new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await authFetch("/v1/sessions");
+
+    expect(fetchMock.mock.calls.filter(([url]) => isRefresh(url))).toHaveLength(1);
+
+    await vi.waitFor(() =>
+      expect(received).toEqual([
+        { type: "refresh_started" },
+        { type: "refresh_finished", ok: true },
+      ])
+    );
+  });
+
+  it("should wait for another tab's refresh instead of refreshing", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 401 }))
+      .mockResolvedValue(new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    syncRefreshAcrossTabs();
+
+    otherTab.postMessage({ type: "refresh_started" });
+    // Let the message arrive before the 401
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const promise = authFetch("/v1/sessions");
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    otherTab.postMessage({ type: "refresh_finished", ok: true });
+    const response = await promise;
+
+    expect(response.status).toBe(200);
+    expect(fetchMock.mock.calls.some(([url]) => isRefresh(url))).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate session queries when another tab changes a session", async () => {
+    const queryClient = new QueryClient();
+    const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+    syncSessionsAcrossTabs(queryClient);
+
+    otherTab.postMessage({ type: "sessions_changed", sessionId: "session-1" });
+
+    await vi.waitFor(() =>
+      expect(invalidate).toHaveBeenCalledWith({ queryKey: ["session", "session-1"] })
+    );
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ["sessions"] });
+  });
+});
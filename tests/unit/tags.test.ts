@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { filterSessionsByTags } from "@/lib/tags";
+import type { Session } from "@/lib/types";
+
+function makeSession(id: string, tagIds?: string[]): Session {
+  return {
+    id,
+    mode: "chat",
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    tag_ids: tagIds,
+  };
+}
+
+describe("filterSessionsByTags", () => {
+  const sessions = [
+    makeSession("both", ["research", "btc"]),
+    makeSession("research", ["research"]),
+    makeSession("untagged"),
+  ];
+
+  it("should keep every session when no tag is selected", () => {
+    expect(filterSessionsByTags(sessions, [])).toBe(sessions);
+  });
+
+  it("should keep sessions carrying every selected tag", () => {
+    expect(filterSessionsByTags(sessions, ["research"]).map((s) => s.id)).toEqual([
+      "both",
+      "research",
+    ]);
+    expect(filterSessionsByTags(sessions, ["research", "btc"]).map((s) => s.id)).toEqual([
+      "both",
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ToolCallDisplay } from "@/components/chat/tool-call";
+import { submitToolApproval } from "@/lib/hooks/use-tool-approval";
+import { getSSEEventHandler } from "@/lib/sse-events";
+import { useChatStore } from "@/store/chat-store";
+import { useToolApprovalStore } from "@/store/tool-approval-store";
+import { api } from "@/lib/api";
+import "@/lib/tool-approval";
+import type { ToolCall } from "@/lib/types";
+
+vi.mock("@/lib/api", () => ({
+  api: { submitToolApproval: vi.fn() },
+}));
+
+vi.mock("sonner", () => ({
+  toast: { error: vi.fn() },
+}));
+
+const SESSION = "session-1";
+
+const awaitingCall: ToolCall = {
+  id: "call-1",
+  tool: "mcp__dex__get_quote",
+  input: { amount: 5 },
+  status: "awaiting_approval",
+};
+
+describe("tool_approval_required event", () => {
+  it("should pass the pending call to onToolApprovalRequired", () => {
+    const onToolApprovalRequired = vi.fn();
+    getSSEEventHandler("tool_approval_required")?.handle(
+      { id: "call-1", tool: "get_quote", input: { amount: 5 } },
+      { onToolApprovalRequired }
+    );
+
+    expect(onToolApprovalRequired).toHaveBeenCalledWith("call-1", "get_quote", { amount: 5 });
+  });
+});
+
+describe("chat store approvals", () => {
+  beforeEach(() => {
+    useChatStore.setState({ streams: {} });
+    useChatStore.getState().startStreaming(SESSION);
+    useChatStore.getState().addToolCallStart(SESSION, "call-1", "get_quote");
+  });
+
+  it("should mark a tool call as awaiting approval", () => {
+    useChatStore.getState().requestToolApproval(SESSION, "call-1", "get_quote", { amount: 5 });
+
+    expect(useChatStore.getState().getToolCalls(SESSION)[0]).toMatchObject({
+      status: "awaiting_approval",
+      input: { amount: 5 },
+    });
+  });
+
+  it("should resume with edited arguments on approval", () => {
+    const store = useChatStore.getState();
+    store.requestToolApproval(SESSION, "call-1", "get_quote", { amount: 5 });
+    store.resolveToolApproval(SESSION, "call-1", { decision: "approve", input: { amount: 1 } });
+
+    expect(store.getToolCalls(SESSION)[0]).toMatchObject({
+      status: "pending",
+      input: { amount: 1 },
+    });
+  });
+
+  it("should fail the tool call on denial", () => {
+    const store = useChatStore.getState();
+    store.requestToolApproval(SESSION, "call-1", "get_quote");
+    store.resolveToolApproval(SESSION, "call-1", { decision: "deny" });
+
+    expect(store.getToolCalls(SESSION)[0]).toMatchObject({
+      status: "error",
+      error: "Denied by user",
+    });
+  });
+});
+
+describe("submitToolApproval", () => {
+  beforeEach(() => {
+    vi.mocked(api.submitToolApproval).mockReset();
+    useChatStore.setState({ streams: {} });
+    useChatStore.getState().startStreaming(SESSION);
+    useChatStore.getState().requestToolApproval(SESSION, "call-1", "get_quote", { amount: 5 });
+  });
+
+  it("should post the decision to the backend", async () => {
+    vi.mocked(api.submitToolApproval).mockResolvedValueOnce();
+    await submitToolApproval(SESSION, awaitingCall, { decision: "approve" });
+
+    expect(api.submitToolApproval).toHaveBeenCalledWith(SESSION, "call-1", { decision: "approve" });
+    expect(useChatStore.getState().getToolCalls(SESSION)[0].status).toBe("pending");
+  });
+
+  it("should return to awaiting approval when the post fails", async () => {
+    vi.mocked(api.submitToolApproval).mockRejectedValueOnce(new Error("Network down"));
+    await submitToolApproval(SESSION, awaitingCall, { decision: "approve" });
+
+    expect(useChatStore.getState().getToolCalls(SESSION)[0].status).toBe("awaiting_approval");
+  });
+});
+
+describe("useToolApprovalStore", () => {
+  beforeEach(() => {
+    useToolApprovalStore.getState().clearAlwaysAllowed();
+  });
+
+  it("should remember always-allowed tools", () => {
+    const store = useToolApprovalStore.getState();
+    store.setAlwaysAllow("get_quote", true);
+    store.setAlwaysAllow("get_quote", true);
+
+    expect(useToolApprovalStore.getState().alwaysAllowedTools).toEqual(["get_quote"]);
+    expect(useToolApprovalStore.getState().isAlwaysAllowed("get_quote")).toBe(true);
+
+    store.setAlwaysAllow("get_quote", false);
+    expect(useToolApprovalStore.getState().isAlwaysAllowed("get_quote")).toBe(false);
+  });
+});
+
+describe("ToolCallDisplay approval controls", () => {
+  it("should approve with the original arguments", () => {
+    const onApprovalDecision = vi.fn();
+    render(<ToolCallDisplay toolCall={awaitingCall} onApprovalDecision={onApprovalDecision} />);
+
+    fireEvent.click(screen.getByRole("checkbox"));
+    fireEvent.click(screen.getByTestId("tool-approve"));
+
+    expect(onApprovalDecision).toHaveBeenCalledWith({ decision: "approve" }, true);
+  });
+
+  it("should deny", () => {
+    const onApprovalDecision = vi.fn();
+    render(<ToolCallDisplay toolCall={awaitingCall} onApprovalDecision={onApprovalDecision} />);
+
+    fireEvent.click(screen.getByTestId("tool-deny"));
+
+    expect(onApprovalDecision).toHaveBeenCalledWith({ decision: "deny" }, false);
+  });
+
+  it("should approve with edited arguments and reject invalid JSON", () => {
+    const onApprovalDecision = vi.fn();
+    render(<ToolCallDisplay toolCall={awaitingCall} onApprovalDecision={onApprovalDecision} />);
+
+    fireEvent.click(screen.getByTestId("tool-edit"));
+    const editor = screen.getByTestId("tool-approval-input");
+
+    fireEvent.change(editor, { target: { value: "{ amount: " } });
+    fireEvent.click(screen.getByTestId("tool-approve"));
+    expect(screen.getByText("Arguments must be valid JSON")).toBeInTheDocument();
+    expect(onApprovalDecision).not.toHaveBeenCalled();
+
+    fireEvent.change(editor, { target: { value: '{"amount": 1}' } });
+    fireEvent.click(screen.getByTestId("tool-approve"));
+    expect(onApprovalDecision).toHaveBeenCalledWith(
+      { decision: "approve", input: { amount: 1 } },
+      false
+    );
+  });
+
+  it("should not show controls for calls that don't need approval", () => {
+    render(
+      <ToolCallDisplay
+        toolCall={{ ...awaitingCall, status: "pending" }}
+        onApprovalDecision={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByTestId("tool-approval")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { authFetch, parseRetryAfter } from "@/lib/transport";
+
+function jsonResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+function isRefresh(url: string) {
+  return url.endsWith("/v1/auth/refresh");
+}
+
+describe("authFetch", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    document.cookie = "csrf_token=old-token; path=/";
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("should send cookies, the CSRF token and caller headers", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200));
+
+    await authFetch("/v1/sessions", { headers: { Accept: "application/json" } });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.credentials).toBe("include");
+    expect(init.headers["X-CSRF-Token"]).toBe("old-token");
+    expect(init.headers.Accept).toBe("application/json");
+  });
+
+  it("should share one refresh between concurrent 401s and replay with the new token", async () => {
+    const sessionCalls = new Map<string, number>();
+    fetchMock.mockImplementation(async (url: string) => {
+      if (isRefresh(url)) {
+        return jsonResponse(200, { csrf_token: "new-token" });
+      }
+      const count = (sessionCalls.get(url) ?? 0) + 1;
+      sessionCalls.set(url, count);
+      return count === 1 ? jsonResponse(401) : jsonResponse(200);
+    });
+
+    const responses = await Promise.all([
+      authFetch("/v1/sessions"),
+      authFetch("/v1/sessions/a"),
+      authFetch("/v1/sessions/b", { method: "POST" }),
+    ]);
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 200]);
+    const refreshes = fetchMock.mock.calls.filter(([url]) => isRefresh(url));
+    expect(refreshes).toHaveLength(1);
+    const [, replayInit] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+    expect(replayInit.headers["X-CSRF-Token"]).toBe("new-token");
+  });
+
+  it("should throw Session expired when the refresh fails", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(401));
+
+    await expect(authFetch("/v1/sessions")).rejects.toThrow("Session expired");
+    expect(fetchMock.mock.calls.filter(([url]) => isRefresh(url))).toHaveLength(1);
+  });
+
+  it("should retry idempotent requests after the Retry-After delay", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, {}, { "Retry-After": "2" }))
+      .mockResolvedValueOnce(jsonResponse(200));
+
+    const promise = authFetch("/v1/sessions");
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await promise).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return responses asking for a longer wait than it would retry after", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(429, {}, { "Retry-After": "30" }));
+
+    const response = await authFetch("/v1/sessions");
+
+    expect(response.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry network failures for idempotent requests", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(jsonResponse(200));
+
+    const promise = authFetch("/v1/sessions");
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await promise).status).toBe(200);
+  });
+
+  it("should return the last response once retries are exhausted", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(429));
+
+    const promise = authFetch("/v1/sessions", { maxRetries: 1 });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await promise).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry non-idempotent requests unless asked", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503));
+
+    const response = await authFetch("/v1/sessions", { method: "POST" });
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop waiting for a retry when aborted", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {}, { "Retry-After": "5" }));
+    const controller = new AbortController();
+
+    const promise = authFetch("/v1/sessions", { signal: controller.signal });
+    const assertion = expect(promise).rejects.toThrow("aborted");
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delay seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now)).toBe(10000);
+    expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
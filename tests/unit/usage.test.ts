@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { sumUsage, formatTokenCount, formatCost } from "@/lib/usage";
+import type { Message } from "@/lib/types";
+
+function message(id: string, usage?: Message["usage"]): Message {
+  return {
+    id,
+    role: "assistant",
+    content: "",
+    created_at: "2026-01-01T00:00:00Z",
+    usage,
+  };
+}
+
+describe("sumUsage", () => {
+  it("should return null when no message has usage", () => {
+    expect(sumUsage([])).toBeNull();
+    expect(sumUsage([message("a")])).toBeNull();
+  });
+
+  it("should add up usage across messages", () => {
+    const total = sumUsage([
+      message("a", { input_tokens: 100, output_tokens: 50, total_tokens: 150, cost_usd: 0.001 }),
+      message("b"),
+      message("c", { input_tokens: 200, output_tokens: 25, total_tokens: 225, cost_usd: 0.002 }),
+    ]);
+
+    expect(total).toEqual({
+      input_tokens: 300,
+      output_tokens: 75,
+      total_tokens: 375,
+      cost_usd: expect.closeTo(0.003, 10),
+    });
+  });
+});
+
+describe("formatTokenCount", () => {
+  it("should format counts compactly", () => {
+    expect(formatTokenCount(950)).toBe("950");
+    expect(formatTokenCount(1234)).toBe("1.2k");
+    expect(formatTokenCount(45600)).toBe("46k");
+    expect(formatTokenCount(3_400_000)).toBe("3.4M");
+  });
+});
+
+describe("formatCost", () => {
+  it("should keep sub-cent costs readable", () => {
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(0.00421)).toBe("$0.0042");
+    expect(formatCost(1.5)).toBe("$1.50");
+  });
+});
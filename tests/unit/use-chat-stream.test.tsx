@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { ReactNode } from "react";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useChatStream, useRetryStream } from "@/lib/hooks/use-chat-stream";
+import { useChatStore } from "@/store/chat-store";
+import type { SessionWithMessages } from "@/lib/types";
+
+vi.mock("sonner", () => ({
+  toast: { error: vi.fn() },
+}));
+
+const SESSION = "session-1";
+
+function pendingStream(): Response {
+  return new Response(new ReadableStream<Uint8Array>(), { status: 200 });
+}
+
+function sseEvent(type: string, data: unknown): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, data })}\n\n`;
+}
+
+// A stream that sends `chunk`, then stays open
+function stalledStream(chunk: string): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(chunk));
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function doneStream(messageId: string): Response {
+  const body = `id: 1\nevent: done\ndata: ${JSON.stringify({
+    type: "done",
+    data: { message_id: messageId },
+  })}\n\n`;
+  return new Response(body, { status: 200 });
+}
+
+function setup() {
+  const queryClient = new QueryClient();
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  const hook = renderHook(
+    () => ({ streamToSession: useChatStream(), retry: useRetryStream() }),
+    { wrapper }
+  );
+  return { queryClient, ...hook };
+}
+
+describe("useChatStream", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    useChatStore.setState({ streams: {}, failures: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should keep the finished response under the user message it answers", async () => {
+    fetchMock.mockResolvedValueOnce(doneStream("msg-2"));
+    const { queryClient, result } = setup();
+    queryClient.setQueryData<SessionWithMessages>(["session", SESSION], {
+      id: SESSION,
+      mode: "chat",
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      messages: [
+        { id: "msg-1", role: "assistant", content: "Hi", created_at: "", parent_id: null },
+        { id: "temp-1", role: "user", content: "hi", created_at: "", parent_id: "msg-1" },
+      ],
+    });
+
+    await act(() =>
+      result.current.streamToSession(
+        SESSION,
+        { content: "hi", parent_id: "msg-1" },
+        { userMessageId: "temp-1" }
+      )
+    );
+
+    const messages = queryClient.getQueryData<SessionWithMessages>(["session", SESSION])?.messages;
+    expect(messages?.[2]).toMatchObject({ id: "msg-2", role: "assistant", parent_id: "temp-1" });
+  });
+});
+
+describe("useRetryStream", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.mocked(toast.error).mockReset();
+    useChatStore.setState({ streams: {}, failures: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should resume the stalled stream instead of sending the message again", async () => {
+    fetchMock.mockResolvedValueOnce(pendingStream()).mockResolvedValueOnce(doneStream("msg-1"));
+    const { result } = setup();
+
+    let streamed!: Promise<void>;
+    act(() => {
+      streamed = result.current.streamToSession(SESSION, { content: "hi", parent_id: null });
+    });
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    act(() => result.current.retry(SESSION));
+    await act(() => streamed);
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toContain(`/v1/sessions/${SESSION}/messages/resume`);
+    expect(init.method).toBe("GET");
+    expect(fetchMock.mock.calls.filter(([, i]) => i.method === "POST")).toHaveLength(1);
+  });
+
+  it("should not repeat content when the resumed response is replayed from the start", async () => {
+    fetchMock
+      .mockResolvedValueOnce(stalledStream(sseEvent("content", { text: "Hel" })))
+      .mockResolvedValueOnce(
+        new Response(
+          sseEvent("content", { text: "Hello" }) +
+            `id: 1\n${sseEvent("done", { message_id: "msg-1" })}`,
+          { status: 200 }
+        )
+      );
+    const { queryClient, result } = setup();
+    queryClient.setQueryData<SessionWithMessages>(["session", SESSION], {
+      id: SESSION,
+      mode: "chat",
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      messages: [],
+    });
+
+    let streamed!: Promise<void>;
+    act(() => {
+      streamed = result.current.streamToSession(SESSION, { content: "hi" });
+    });
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await waitFor(() =>
+      expect(useChatStore.getState().getStream(SESSION).streamingContent).toBe("Hel")
+    );
+    act(() => result.current.retry(SESSION));
+    await act(() => streamed);
+
+    const messages = queryClient.getQueryData<SessionWithMessages>(["session", SESSION])?.messages;
+    expect(messages?.[0]).toMatchObject({ id: "msg-1", content: "Hello" });
+  });
+
+  it("should send the message again under the same parent when the run is gone", async () => {
+    fetchMock
+      .mockResolvedValueOnce(pendingStream())
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: "No response to resume", code: "not_found" }), {
+          status: 404,
+        })
+      )
+      .mockResolvedValueOnce(doneStream("msg-1"));
+    const { result } = setup();
+
+    let streamed!: Promise<void>;
+    act(() => {
+      streamed = result.current.streamToSession(SESSION, { content: "hi", parent_id: "msg-0" });
+    });
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    act(() => result.current.retry(SESSION));
+    await act(() => streamed);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const [url, init] = fetchMock.mock.calls[2];
+    expect(url).toMatch(new RegExp(`/v1/sessions/${SESSION}/messages$`));
+    expect(JSON.parse(init.body)).toEqual({ content: "hi", parent_id: "msg-0" });
+    expect(toast.error).not.toHaveBeenCalled();
+    expect(useChatStore.getState().getStreamingSessionIds()).toEqual([]);
+  });
+
+  it("should leave the parent to the backend when resending a message sent without one", async () => {
+    fetchMock
+      .mockResolvedValueOnce(pendingStream())
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: "No response to resume", code: "not_found" }), {
+          status: 404,
+        })
+      )
+      .mockResolvedValueOnce(doneStream("msg-1"));
+    const { result } = setup();
+
+    let streamed!: Promise<void>;
+    act(() => {
+      streamed = result.current.streamToSession(SESSION, { content: "hi" });
+    });
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    act(() => result.current.retry(SESSION));
+    await act(() => streamed);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body)).toEqual({ content: "hi" });
+  });
+});
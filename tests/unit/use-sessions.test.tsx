@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { MouseEvent, ReactNode } from "react";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { toast, type Action } from "sonner";
+import { api } from "@/lib/api";
+import {
+  flattenSessionPages,
+  getNextSessionsOffset,
+  useArchivedSessions,
+  useBulkSessionAction,
+  useDeleteSession,
+  useRestoreSessions,
+  useSessions,
+  useSoftDeleteSessions,
+  useUpdateSession,
+  type SessionPages,
+} from "@/lib/hooks/use-sessions";
+import type { Session, SessionsResponse } from "@/lib/types";
+
+vi.mock("@/lib/api", () => ({
+  api: {
+    getSessions: vi.fn(),
+    deleteSession: vi.fn(),
+    updateSession: vi.fn(),
+    bulkUpdateSessions: vi.fn(),
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: Object.assign(vi.fn(), { error: vi.fn() }),
+}));
+
+function makeSession(id: string, title = `Chat ${id}`): Session {
+  return {
+    id,
+    mode: "chat",
+    title,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  };
+}
+
+function page(ids: string[], offset: number, total: number): SessionsResponse {
+  return { sessions: ids.map((id) => makeSession(id)), total, limit: 2, offset };
+}
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return { queryClient, wrapper };
+}
+
+describe("session pages", () => {
+  it("should stop paging once every session is loaded", () => {
+    expect(getNextSessionsOffset(page(["a", "b"], 0, 3))).toBe(2);
+    expect(getNextSessionsOffset(page(["c"], 2, 3))).toBeUndefined();
+    expect(getNextSessionsOffset(page([], 4, 10))).toBeUndefined();
+  });
+
+  it("should drop sessions repeated by a shifted page", () => {
+    const data: SessionPages = {
+      pages: [page(["new", "a"], 0, 4), page(["a", "b"], 2, 4)],
+      pageParams: [0, 2],
+    };
+
+    expect(flattenSessionPages(data).sessions.map((s) => s.id)).toEqual(["new", "a", "b"]);
+  });
+});
+
+describe("useSessions", () => {
+  beforeEach(() => {
+    vi.mocked(api.getSessions).mockReset();
+    vi.mocked(api.deleteSession).mockReset();
+    vi.mocked(api.updateSession).mockReset();
+    vi.mocked(api.bulkUpdateSessions).mockReset();
+  });
+
+  it("should load the next page from the end of the last one", async () => {
+    vi.mocked(api.getSessions)
+      .mockResolvedValueOnce(page(["a", "b"], 0, 3))
+      .mockResolvedValueOnce(page(["c"], 2, 3));
+    const { wrapper } = setup();
+    const { result } = renderHook(() => useSessions(), { wrapper });
+
+    await waitFor(() => expect(result.current.hasNextPage).toBe(true));
+    await act(() => result.current.fetchNextPage());
+
+    expect(api.getSessions).toHaveBeenLastCalledWith(50, 2);
+    await waitFor(() =>
+      expect(result.current.data?.sessions.map((s) => s.id)).toEqual(["a", "b", "c"])
+    );
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it("should page through archived sessions separately from the default listing", async () => {
+    vi.mocked(api.getSessions)
+      .mockResolvedValueOnce(page(["a", "b"], 0, 3))
+      .mockResolvedValueOnce(page(["c"], 2, 3));
+    const { wrapper } = setup();
+    const { result } = renderHook(() => useArchivedSessions(), { wrapper });
+
+    await waitFor(() => expect(result.current.hasNextPage).toBe(true));
+    expect(api.getSessions).toHaveBeenCalledWith(50, 0, true);
+    await act(() => result.current.fetchNextPage());
+
+    expect(api.getSessions).toHaveBeenLastCalledWith(50, 2, true);
+    await waitFor(() => expect(result.current.data?.sessions).toHaveLength(3));
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it("should remove a deleted session from every page and restore it on failure", async () => {
+    const { queryClient, wrapper } = setup();
+    const pages: SessionPages = {
+      pages: [page(["a", "b"], 0, 3), page(["c"], 2, 3)],
+      pageParams: [0, 2],
+    };
+    queryClient.setQueryData(["sessions"], pages);
+    let rejectDelete: (error: Error) => void = () => {};
+    vi.mocked(api.deleteSession).mockReturnValueOnce(
+      new Promise((_, reject) => {
+        rejectDelete = reject;
+      })
+    );
+    const { result } = renderHook(() => useDeleteSession(), { wrapper });
+
+    act(() => result.current.mutate("c"));
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData<SessionPages>(["sessions"])?.pages[1].sessions).toEqual([])
+    );
+    expect(queryClient.getQueryData<SessionPages>(["sessions"])?.pages[0].total).toBe(2);
+
+    rejectDelete(new Error("Network down"));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(queryClient.getQueryData(["sessions"])).toEqual(pages);
+  });
+
+  it("should rename a session in the list and the open session at once", async () => {
+    const { queryClient, wrapper } = setup();
+    queryClient.setQueryData<SessionPages>(["sessions"], {
+      pages: [page(["a", "b"], 0, 2)],
+      pageParams: [0],
+    });
+    queryClient.setQueryData(["session", "b"], { ...makeSession("b"), messages: [] });
+    vi.mocked(api.updateSession).mockReturnValueOnce(new Promise(() => {}));
+    const { result } = renderHook(() => useUpdateSession(), { wrapper });
+
+    act(() => result.current.mutate({ sessionId: "b", title: "Renamed" }));
+
+    await waitFor(() =>
+      expect(
+        queryClient.getQueryData<SessionPages>(["sessions"])?.pages[0].sessions[1].title
+      ).toBe("Renamed")
+    );
+    expect(queryClient.getQueryData<Session>(["session", "b"])?.title).toBe("Renamed");
+  });
+
+  it("should remove an archived session from the list", async () => {
+    const { queryClient, wrapper } = setup();
+    queryClient.setQueryData<SessionPages>(["sessions"], {
+      pages: [page(["a", "b"], 0, 2)],
+      pageParams: [0],
+    });
+    vi.mocked(api.updateSession).mockReturnValueOnce(new Promise(() => {}));
+    const { result } = renderHook(() => useUpdateSession(), { wrapper });
+
+    act(() => result.current.mutate({ sessionId: "b", archived: true }));
+
+    await waitFor(() =>
+      expect(
+        queryClient.getQueryData<SessionPages>(["sessions"])?.pages[0].sessions.map((s) => s.id)
+      ).toEqual(["a"])
+    );
+    expect(queryClient.getQueryData<SessionPages>(["sessions"])?.pages[0].total).toBe(1);
+  });
+
+  it("should remove bulk-archived sessions from every page and restore them on failure", async () => {
+    const { queryClient, wrapper } = setup();
+    const pages: SessionPages = {
+      pages: [page(["a", "b"], 0, 3), page(["c"], 2, 3)],
+      pageParams: [0, 2],
+    };
+    queryClient.setQueryData(["sessions"], pages);
+    let rejectArchive: (error: Error) => void = () => {};
+    vi.mocked(api.bulkUpdateSessions).mockReturnValueOnce(
+      new Promise((_, reject) => {
+        rejectArchive = reject;
+      })
+    );
+    const { result } = renderHook(() => useBulkSessionAction(), { wrapper });
+
+    act(() => result.current.mutate({ action: "archive", session_ids: ["a", "c"] }));
+
+    await waitFor(() =>
+      expect(
+        queryClient.getQueryData<SessionPages>(["sessions"])?.pages.map((p) => p.sessions.length)
+      ).toEqual([1, 0])
+    );
+    expect(queryClient.getQueryData<SessionPages>(["sessions"])?.pages[0].total).toBe(1);
+
+    rejectArchive(new Error("Network down"));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(queryClient.getQueryData(["sessions"])).toEqual(pages);
+  });
+
+  it("should move bulk-selected sessions into a folder", async () => {
+    const { queryClient, wrapper } = setup();
+    queryClient.setQueryData<SessionPages>(["sessions"], {
+      pages: [page(["a", "b"], 0, 2)],
+      pageParams: [0],
+    });
+    vi.mocked(api.bulkUpdateSessions).mockReturnValueOnce(new Promise(() => {}));
+    const { result } = renderHook(() => useBulkSessionAction(), { wrapper });
+
+    act(() => result.current.mutate({ action: "move", session_ids: ["b"], folder_id: "pools" }));
+
+    await waitFor(() =>
+      expect(
+        queryClient
+          .getQueryData<SessionPages>(["sessions"])
+          ?.pages[0].sessions.map((s) => s.folder_id)
+      ).toEqual([undefined, "pools"])
+    );
+  });
+
+  it("should take restored sessions out of recently deleted", async () => {
+    const { queryClient, wrapper } = setup();
+    queryClient.setQueryData<SessionsResponse>(["sessions", "deleted"], page(["a", "b"], 0, 2));
+    vi.mocked(api.bulkUpdateSessions).mockResolvedValueOnce(undefined);
+    const { result } = renderHook(() => useRestoreSessions(), { wrapper });
+
+    await act(() => result.current.mutateAsync(["a"]));
+
+    expect(api.bulkUpdateSessions).toHaveBeenCalledWith({ action: "restore", session_ids: ["a"] });
+    const deleted = queryClient.getQueryData<SessionsResponse>(["sessions", "deleted"]);
+    expect(deleted?.sessions.map((s) => s.id)).toEqual(["b"]);
+    expect(deleted?.total).toBe(1);
+  });
+});
+
+describe("useSoftDeleteSessions", () => {
+  beforeEach(() => {
+    vi.mocked(api.deleteSession).mockReset();
+    vi.mocked(api.bulkUpdateSessions).mockReset();
+    vi.mocked(toast).mockReset();
+    vi.mocked(toast.error).mockReset();
+  });
+
+  it("should report deleted sessions and restore them from the toast's Undo", async () => {
+    vi.mocked(api.bulkUpdateSessions).mockResolvedValue(undefined);
+    const onDeleted = vi.fn();
+    const { wrapper } = setup();
+    const { result } = renderHook(() => useSoftDeleteSessions(onDeleted), { wrapper });
+
+    await act(() => result.current.deleteSessions(["a", "b"]));
+
+    expect(onDeleted).toHaveBeenCalledWith(["a", "b"]);
+    const [message, options] = vi.mocked(toast).mock.calls[0];
+    expect(message).toBe("2 chats deleted");
+    const undo = options?.action as Action;
+    act(() => undo.onClick({} as MouseEvent<HTMLButtonElement>));
+    await waitFor(() =>
+      expect(api.bulkUpdateSessions).toHaveBeenLastCalledWith({
+        action: "restore",
+        session_ids: ["a", "b"],
+      })
+    );
+  });
+
+  it("should not report a session that failed to delete", async () => {
+    vi.mocked(api.deleteSession).mockRejectedValueOnce(new Error("Network down"));
+    const onDeleted = vi.fn();
+    const { wrapper } = setup();
+    const { result } = renderHook(() => useSoftDeleteSessions(onDeleted), { wrapper });
+
+    await act(() => result.current.deleteSession("a"));
+
+    expect(onDeleted).not.toHaveBeenCalled();
+    expect(toast.error).toHaveBeenCalledWith("Failed to delete session");
+  });
+});
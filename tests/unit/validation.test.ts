@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { validateContentBlock } from "@/lib/validation";
+
+describe("validateContentBlock", () => {
+  it.each([
+    { type: "text", text: "Hello" },
+    { type: "code", code: "x = 1", language: null },
+    { type: "heading", text: "Title", level: 2 },
+    { type: "list", items: ["a", "b"], ordered: false },
+    { type: "table", headers: ["A"], rows: [["1"], ["2"]] },
+    { type: "hr" },
+    { type: "tasklist", tasks: [{ text: "Ship", checked: true }] },
+    { type: "callout", callout_type: "TIP", text: "Hint" },
+    { type: "details", text: "More", children: [{ type: "bogus" }] },
+    {
+      type: "chart",
+      chart_type: "pie",
+      chart_data: { series: [{ name: "A", value: 3 }] },
+    },
+    {
+      type: "chart",
+      chart_type: "scatter",
+      chart_data: { series: [{ name: "S", data: [{ x: 1, y: 2 }] }] },
+    },
+  ])("should accept a valid $type block", (block) => {
+    expect(validateContentBlock(block)).toEqual({ ok: true, value: block });
+  });
+
+  it.each([
+    [null, "block: expected object, got null"],
+    [{ type: "video" }, 'block.type: unknown block type "video"'],
+    [{ type: "constructor" }, 'block.type: unknown block type "constructor"'],
+    [{ type: "heading", text: "Title", level: 7 }, "block.level: expected one of 1, 2, 3, 4, 5, 6, got 7"],
+    [{ type: "table", headers: ["A"], rows: [["1"], "2"] }, "block.rows[1]: expected array, got string"],
+    [{ type: "tasklist", tasks: [{ text: "Ship" }] }, "block.tasks[0].checked: expected boolean, got undefined"],
+    [
+      { type: "chart", chart_type: "bar", chart_data: { series: [{ name: "A", value: 3 }] } },
+      "block.chart_data.series[0].data: expected array, got undefined",
+    ],
+    [{ type: "chart", chart_type: "line" }, "block.chart_data: expected object, got undefined"],
+  ])("should reject %j", (block, issue) => {
+    expect(validateContentBlock(block)).toEqual({ ok: false, issue });
+  });
+});